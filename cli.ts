@@ -0,0 +1,109 @@
+#!/usr/bin/env node
+import { parseArgs } from "util";
+import AdminForthStorageAdapterLocalFilesystem from "./index.js";
+
+const USAGE = `Usage: adminforth-storage-local <command> [options]
+
+Commands:
+  fsck                    Check consistency of files and metadata, prints JSON report.
+                          Exits with code 1 if there are issues which were not repaired.
+  export <dir>            Export objects, metadata and deletion state to snapshot folder, prints JSON report.
+                          Objects which did not change since the previous export to the folder are skipped.
+  import <dir>            Import snapshot folder, prints JSON report. Exits with code 1 if some objects failed.
+  verify-snapshot <dir>   Check content of snapshot folder against its manifest, --folder and --instance are not needed.
+
+Common options:
+  --folder <path>       fileSystemFolder of the adapter (required)
+  --instance <id>       unique instance id of the adapter, name of the internal folder inside fileSystemFolder (required)
+  --store <type>        metadata store: level (default), sidecar or sqlite
+
+fsck options:
+  --repair              fix found issues
+  --orphans <action>    what to do with files without metadata: rebuild (default), quarantine or delete
+  --exclude <prefix>    key prefix to skip, can be repeated
+
+export and import options:
+  --prefix <prefix>     only keys starting with prefix
+  --overwrite           import: replace existing objects with different content
+
+Encrypted storage can't be exported or imported from CLI, use exportSnapshot and importSnapshot of configured adapter.
+`;
+
+async function main() {
+  const { positionals, values } = parseArgs({
+    allowPositionals: true,
+    options: {
+      folder: { type: "string" },
+      instance: { type: "string" },
+      store: { type: "string", default: "level" },
+      repair: { type: "boolean", default: false },
+      orphans: { type: "string", default: "rebuild" },
+      exclude: { type: "string", multiple: true, default: [] },
+      prefix: { type: "string", default: "" },
+      overwrite: { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+  const [command, snapshotFolder] = positionals;
+
+  const isSnapshotCommand = ["export", "import", "verify-snapshot"].includes(command);
+  if (
+    values.help
+    || (command !== "fsck" && !isSnapshotCommand)
+    || (isSnapshotCommand && !snapshotFolder)
+    || (command !== "verify-snapshot" && (!values.folder || !values.instance))
+  ) {
+    console.error(USAGE);
+    process.exit(values.help ? 0 : 2);
+  }
+  if (!["level", "sidecar", "sqlite"].includes(values.store)) {
+    throw new Error(`Unknown store ${values.store}`);
+  }
+  if (!["rebuild", "quarantine", "delete"].includes(values.orphans)) {
+    throw new Error(`Unknown orphans action ${values.orphans}`);
+  }
+
+  const adapter = new AdminForthStorageAdapterLocalFilesystem({
+    fileSystemFolder: values.folder,
+    signingSecret: "", // not needed, no URLs are signed from CLI
+    metadataStore: values.store as "level" | "sidecar" | "sqlite",
+  });
+  if (command === "verify-snapshot") {
+    const report = await adapter.verifySnapshot(snapshotFolder);
+    console.log(JSON.stringify(report, null, 2));
+    if (report.failed.length) {
+      process.exitCode = 1;
+    }
+    return;
+  }
+
+  await adapter.openStorage(values.instance);
+  try {
+    if (command === "export" || command === "import") {
+      const report = command === "export"
+        ? await adapter.exportSnapshot(snapshotFolder, { prefix: values.prefix })
+        : await adapter.importSnapshot(snapshotFolder, { prefix: values.prefix, overwrite: values.overwrite });
+      console.log(JSON.stringify(report, null, 2));
+      if (report.failed.length) {
+        process.exitCode = 1;
+      }
+      return;
+    }
+    const report = await adapter.fsck({
+      repair: values.repair,
+      orphans: values.orphans as "rebuild" | "quarantine" | "delete",
+      exclude: values.exclude,
+    });
+    console.log(JSON.stringify(report, null, 2));
+    if (report.issues.length > report.repaired) {
+      process.exitCode = 1;
+    }
+  } finally {
+    await adapter.dispose();
+  }
+}
+
+main().catch((e) => {
+  console.error(e.message ?? e);
+  process.exit(2);
+});
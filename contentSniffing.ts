@@ -0,0 +1,214 @@
+import fs from "fs/promises";
+import path from "path";
+
+// number of bytes at the beginning of file which is enough to detect content type
+export const SNIFF_LENGTH = 512;
+
+const SIGNATURES: { contentType: string; bytes: (number | null)[]; offset?: number }[] = [
+  { contentType: "image/png", bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { contentType: "image/jpeg", bytes: [0xff, 0xd8, 0xff] },
+  { contentType: "image/gif", bytes: [0x47, 0x49, 0x46, 0x38] },
+  { contentType: "image/webp", bytes: [0x52, 0x49, 0x46, 0x46, null, null, null, null, 0x57, 0x45, 0x42, 0x50] },
+  { contentType: "image/bmp", bytes: [0x42, 0x4d, null, null, null, null, 0x00, 0x00, 0x00, 0x00] },
+  { contentType: "image/tiff", bytes: [0x49, 0x49, 0x2a, 0x00] },
+  { contentType: "image/tiff", bytes: [0x4d, 0x4d, 0x00, 0x2a] },
+  // BigTIFF
+  { contentType: "image/tiff", bytes: [0x49, 0x49, 0x2b, 0x00] },
+  { contentType: "image/tiff", bytes: [0x4d, 0x4d, 0x00, 0x2b] },
+  { contentType: "image/x-icon", bytes: [0x00, 0x00, 0x01, 0x00] },
+  { contentType: "application/pdf", bytes: [0x25, 0x50, 0x44, 0x46, 0x2d] },
+  { contentType: "application/zip", bytes: [0x50, 0x4b, 0x03, 0x04] },
+  // empty archive (end of central directory only) and spanned archive
+  { contentType: "application/zip", bytes: [0x50, 0x4b, 0x05, 0x06] },
+  { contentType: "application/zip", bytes: [0x50, 0x4b, 0x07, 0x08] },
+  { contentType: "application/gzip", bytes: [0x1f, 0x8b] },
+  { contentType: "application/x-7z-compressed", bytes: [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c] },
+  { contentType: "application/vnd.rar", bytes: [0x52, 0x61, 0x72, 0x21, 0x1a, 0x07] },
+  { contentType: "audio/wav", bytes: [0x52, 0x49, 0x46, 0x46, null, null, null, null, 0x57, 0x41, 0x56, 0x45] },
+  { contentType: "video/x-msvideo", bytes: [0x52, 0x49, 0x46, 0x46, null, null, null, null, 0x41, 0x56, 0x49, 0x20] },
+  { contentType: "audio/mpeg", bytes: [0x49, 0x44, 0x33] },
+  { contentType: "audio/ogg", bytes: [0x4f, 0x67, 0x67, 0x53] },
+  { contentType: "audio/flac", bytes: [0x66, 0x4c, 0x61, 0x43] },
+  { contentType: "video/webm", bytes: [0x1a, 0x45, 0xdf, 0xa3] },
+  { contentType: "application/wasm", bytes: [0x00, 0x61, 0x73, 0x6d] },
+  { contentType: "font/woff", bytes: [0x77, 0x4f, 0x46, 0x46] },
+  { contentType: "font/woff2", bytes: [0x77, 0x4f, 0x46, 0x32] },
+];
+
+// ISO base media file format brands (bytes 8..11 after "ftyp")
+const FTYP_BRANDS: Record<string, string> = {
+  avif: "image/avif",
+  avis: "image/avif",
+  heic: "image/heic",
+  heix: "image/heic",
+  mif1: "image/heif",
+  qt: "video/quicktime",
+  M4A: "audio/mp4",
+};
+
+const EXTENSIONS: Record<string, string> = {
+  ".txt": "text/plain",
+  ".csv": "text/csv",
+  ".json": "application/json",
+  ".html": "text/html",
+  ".htm": "text/html",
+  ".xml": "application/xml",
+  ".svg": "image/svg+xml",
+  ".css": "text/css",
+  ".js": "text/javascript",
+  ".md": "text/markdown",
+  ".docx": "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  ".xlsx": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  ".pptx": "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+};
+
+function matchesSignature(head: Buffer, bytes: (number | null)[], offset = 0): boolean {
+  if (head.length < offset + bytes.length) {
+    return false;
+  }
+  return bytes.every((byte, i) => byte === null || head[offset + i] === byte);
+}
+
+// MP3 without ID3 tag starts with MPEG audio frame header: 11 sync bits, version (not reserved), layer II or III
+function isMpegAudioFrame(head: Buffer): boolean {
+  if (head.length < 3 || head[0] !== 0xff || (head[1] & 0xe0) !== 0xe0) {
+    return false;
+  }
+  const version = head[1] & 0x18;
+  const layer = head[1] & 0x06;
+  const bitrate = head[2] & 0xf0;
+  const sampleRate = head[2] & 0x0c;
+  return version !== 0x08 && (layer === 0x02 || layer === 0x04) && bitrate !== 0xf0 && sampleRate !== 0x0c;
+}
+
+function looksLikeText(head: Buffer): boolean {
+  return !head.includes(0x00);
+}
+
+/**
+ * Detects content type by magic bytes at the beginning of the file.
+ * @param head - first SNIFF_LENGTH bytes of the file (or whole file if it is shorter)
+ * @returns detected content type or undefined if content is not recognized
+ */
+export function sniffContentType(head: Buffer): string | undefined {
+  for (const signature of SIGNATURES) {
+    if (matchesSignature(head, signature.bytes, signature.offset)) {
+      return signature.contentType;
+    }
+  }
+  if (isMpegAudioFrame(head)) {
+    return "audio/mpeg";
+  }
+  if (head.length >= 12 && head.toString("latin1", 4, 8) === "ftyp") {
+    const brand = head.toString("latin1", 8, 12).trim();
+    return FTYP_BRANDS[brand] ?? "video/mp4";
+  }
+  if (!looksLikeText(head)) {
+    return undefined;
+  }
+  const text = head.toString("utf-8").replace(/^\uFEFF/, "").trimStart().toLowerCase();
+  if (/^<!doctype html|^<html|^<head|^<body|^<script|^<iframe/.test(text)) {
+    return "text/html";
+  }
+  if (/^(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*(<!doctype svg[^>]*>\s*)?<svg[\s>]/.test(text)) {
+    return "image/svg+xml";
+  }
+  if (text.startsWith("<?xml")) {
+    return "application/xml";
+  }
+  if (text.startsWith("%!ps")) {
+    return "application/postscript";
+  }
+  return undefined;
+}
+
+// declared content types which are accepted for detected one, "*" matches any part of the type
+const COMPATIBLE_TYPES: Record<string, string[]> = {
+  "image/png": ["image/apng"],
+  "image/jpeg": ["image/jpg", "image/pjpeg"],
+  "image/bmp": ["image/x-bmp", "image/x-ms-bmp"],
+  "image/x-icon": ["image/vnd.microsoft.icon", "image/ico"],
+  "image/heic": ["image/heif", "image/heic-sequence"],
+  "image/heif": ["image/heic", "image/heif-sequence"],
+  "application/pdf": ["application/x-pdf"],
+  "application/zip": [
+    "application/x-zip-compressed",
+    "application/*+zip",
+    "application/vnd.openxmlformats-officedocument.*",
+    "application/vnd.oasis.opendocument.*",
+    "application/java-archive",
+    "application/vnd.android.package-archive",
+  ],
+  "application/gzip": ["application/x-gzip"],
+  "application/vnd.rar": ["application/x-rar-compressed", "application/x-rar"],
+  "audio/wav": ["audio/x-wav", "audio/wave", "audio/vnd.wave"],
+  "audio/mpeg": ["audio/mp3"],
+  "audio/ogg": ["audio/opus", "video/ogg", "application/ogg"],
+  "audio/flac": ["audio/x-flac"],
+  "video/webm": ["audio/webm", "video/x-matroska", "audio/x-matroska"],
+  "video/mp4": ["video/*", "audio/mp4", "audio/x-m4a", "audio/aac"],
+  "video/quicktime": ["video/mp4"],
+  "audio/mp4": ["audio/x-m4a", "video/mp4"],
+  "font/woff": ["application/font-woff"],
+  "font/woff2": ["application/font-woff2"],
+  "application/postscript": ["application/eps", "image/eps", "image/x-eps"],
+  "application/xml": ["text/xml", "application/*+xml"],
+  "text/html": ["application/xhtml+xml"],
+};
+
+// content types which browser can execute scripts in
+const ACTIVE_TYPES = ["text/html", "image/svg+xml", "application/xml"];
+
+function matchesTypePattern(contentType: string, pattern: string): boolean {
+  const regexp = new RegExp(`^${pattern.split("*").map((part) => part.replace(/[.+?^${}()|[\]\\/]/g, "\\$&")).join(".*")}$`);
+  return regexp.test(contentType);
+}
+
+/**
+ * Checks that content looks like declared content type.
+ * Content which is not recognized is accepted, unless declared type has a known signature (e.g. "image/png").
+ * Active content (HTML, SVG, XML) is accepted only if it is declared as such.
+ * @param head - first SNIFF_LENGTH bytes of the content (or whole content if it is shorter)
+ * @returns undefined if content matches, or detected content type otherwise
+ */
+export function findContentTypeMismatch(declaredContentType: string, head: Buffer): string | undefined {
+  const declared = declaredContentType.split(";")[0].trim().toLowerCase();
+  const detected = sniffContentType(head);
+  if (!detected) {
+    const hasSignature = SIGNATURES.some((signature) => signature.contentType === declared)
+      || Object.values(FTYP_BRANDS).includes(declared);
+    return hasSignature ? "unknown" : undefined;
+  }
+  if (detected === declared) {
+    return undefined;
+  }
+  // binary which is declared as generic binary can't be run by browser
+  if (declared === "application/octet-stream" && !ACTIVE_TYPES.includes(detected)) {
+    return undefined;
+  }
+  return (COMPATIBLE_TYPES[detected] ?? []).some((pattern) => matchesTypePattern(declared, pattern)) ? undefined : detected;
+}
+
+/**
+ * Guesses content type of the file on disk: by content first, then by extension.
+ */
+export async function sniffFileContentType(filePath: string): Promise<string> {
+  const handle = await fs.open(filePath, "r");
+  let head: Buffer;
+  try {
+    const buffer = Buffer.alloc(SNIFF_LENGTH);
+    const { bytesRead } = await handle.read(buffer, 0, SNIFF_LENGTH, 0);
+    head = buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+  const sniffed = sniffContentType(head);
+  if (sniffed) {
+    return sniffed;
+  }
+  const byExtension = EXTENSIONS[path.extname(filePath).toLowerCase()];
+  if (byExtension) {
+    return byExtension;
+  }
+  return looksLikeText(head) ? "text/plain" : "application/octet-stream";
+}
@@ -0,0 +1,197 @@
+import crypto from "crypto";
+import fs from "fs/promises";
+import { Readable, Transform } from "stream";
+
+/**
+ * Encrypted file layout:
+ *   header: magic "AFE1" (4 bytes) + salt (16 bytes)
+ *   chunks: AES-256-GCM ciphertext of chunkSize plaintext bytes (last chunk might be shorter or empty) + 16 bytes auth tag
+ * Every file gets its own key derived from master key and salt with HKDF, nonce is the chunk index,
+ * and the last chunk is authenticated as final, so chunks can't be reordered, dropped or truncated.
+ * Chunks make it possible to decrypt arbitrary byte ranges without reading the whole file.
+ */
+export interface EncryptionOptions {
+  keys: Record<string, string | Buffer>; // key id -> 32 bytes key, as Buffer or hex/base64 string
+  currentKeyId: string; // key used to encrypt new files
+  chunkSize?: number; // plaintext bytes per encrypted chunk, default 65536
+  rotateOnStartup?: boolean; // re-encrypt objects which use other keys (or are not encrypted) in background after setup
+}
+
+const MAGIC = Buffer.from("AFE1");
+const SALT_LENGTH = 16;
+const TAG_LENGTH = 16;
+export const HEADER_LENGTH = MAGIC.length + SALT_LENGTH;
+export const DEFAULT_CHUNK_SIZE = 64 * 1024;
+
+export function decodeEncryptionKey(keyId: string, key: string | Buffer): Buffer {
+  const decoded = Buffer.isBuffer(key)
+    ? key
+    : Buffer.from(key, /^[0-9a-fA-F]{64}$/.test(key) ? "hex" : "base64");
+  if (decoded.length !== 32) {
+    throw new Error(`Encryption key ${keyId} should be 32 bytes long`);
+  }
+  return decoded;
+}
+
+/**
+ * Checks if file starts with the header of encrypted file.
+ */
+export async function isEncryptedFile(filePath: string): Promise<boolean> {
+  const handle = await fs.open(filePath, "r");
+  try {
+    const magic = Buffer.alloc(MAGIC.length);
+    const { bytesRead } = await handle.read(magic, 0, MAGIC.length, 0);
+    return bytesRead === MAGIC.length && magic.equals(MAGIC);
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Checks if the first chunk of the file can be decrypted with the key, e.g. to find out which of two keys was used.
+ * @param plainSize - size of plaintext, stored in metadata
+ */
+export async function canDecryptFile(filePath: string, masterKey: Buffer, chunkSize: number, plainSize: number): Promise<boolean> {
+  const handle = await fs.open(filePath, "r");
+  try {
+    const header = Buffer.alloc(HEADER_LENGTH);
+    await handle.read(header, 0, HEADER_LENGTH, 0);
+    if (!header.subarray(0, MAGIC.length).equals(MAGIC)) {
+      return false;
+    }
+    const plainLength = Math.min(chunkSize, plainSize);
+    const encrypted = Buffer.alloc(plainLength + TAG_LENGTH);
+    const { bytesRead } = await handle.read(encrypted, 0, encrypted.length, HEADER_LENGTH);
+    if (bytesRead !== encrypted.length) {
+      return false;
+    }
+    const decipher = crypto.createDecipheriv("aes-256-gcm", deriveFileKey(masterKey, header.subarray(MAGIC.length)), chunkNonce(0));
+    decipher.setAAD(chunkAad(plainSize <= chunkSize));
+    decipher.setAuthTag(encrypted.subarray(plainLength));
+    try {
+      decipher.update(encrypted.subarray(0, plainLength));
+      decipher.final();
+      return true;
+    } catch (e) {
+      return false;
+    }
+  } finally {
+    await handle.close();
+  }
+}
+
+function deriveFileKey(masterKey: Buffer, salt: Buffer): Buffer {
+  return Buffer.from(crypto.hkdfSync("sha256", masterKey, salt, "adminforth-storage-local aes-256-gcm", 32));
+}
+
+function chunkNonce(index: number): Buffer {
+  const nonce = Buffer.alloc(12);
+  nonce.writeBigUInt64BE(BigInt(index), 4);
+  return nonce;
+}
+
+function chunkAad(final: boolean): Buffer {
+  return Buffer.from([final ? 1 : 0]);
+}
+
+/**
+ * Size of encrypted file on disk for given plaintext size.
+ */
+export function encryptedSize(plainSize: number, chunkSize: number): number {
+  const chunks = Math.max(1, Math.ceil(plainSize / chunkSize));
+  return HEADER_LENGTH + plainSize + chunks * TAG_LENGTH;
+}
+
+/**
+ * Creates transform stream which encrypts plaintext into the format described above.
+ */
+export function createEncryptStream(masterKey: Buffer, chunkSize = DEFAULT_CHUNK_SIZE): Transform {
+  const salt = crypto.randomBytes(SALT_LENGTH);
+  const fileKey = deriveFileKey(masterKey, salt);
+  let index = 0;
+  let pending = Buffer.alloc(0);
+
+  const encryptChunk = (plaintext: Buffer, final: boolean): Buffer => {
+    const cipher = crypto.createCipheriv("aes-256-gcm", fileKey, chunkNonce(index++));
+    cipher.setAAD(chunkAad(final));
+    const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+    return Buffer.concat([ciphertext, cipher.getAuthTag()]);
+  };
+
+  let headerWritten = false;
+  const header = () => {
+    if (headerWritten) {
+      return [];
+    }
+    headerWritten = true;
+    return [MAGIC, salt];
+  };
+
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      pending = Buffer.concat([pending, chunk]);
+      const output: Buffer[] = header();
+      // keep at least one byte pending: chunk can be encrypted only when it is known whether it is the last one
+      while (pending.length > chunkSize) {
+        output.push(encryptChunk(pending.subarray(0, chunkSize), false));
+        pending = pending.subarray(chunkSize);
+      }
+      callback(null, Buffer.concat(output));
+    },
+    flush(callback) {
+      callback(null, Buffer.concat([...header(), encryptChunk(pending, true)]));
+    },
+  });
+}
+
+/**
+ * Creates readable stream with decrypted plaintext of the file, optionally only bytes start..end (inclusive).
+ * @param plainSize - size of plaintext, stored in metadata
+ */
+export function createDecryptStream(
+  filePath: string,
+  masterKey: Buffer,
+  chunkSize: number,
+  plainSize: number,
+  range?: { start: number; end: number },
+): Readable {
+  const start = range?.start ?? 0;
+  const end = range?.end ?? plainSize - 1;
+  const lastIndex = Math.max(0, Math.ceil(plainSize / chunkSize) - 1);
+
+  return Readable.from((async function* () {
+    const handle = await fs.open(filePath, "r");
+    try {
+      const header = Buffer.alloc(HEADER_LENGTH);
+      await handle.read(header, 0, HEADER_LENGTH, 0);
+      if (!header.subarray(0, MAGIC.length).equals(MAGIC)) {
+        throw new Error("File is not encrypted or has unknown format");
+      }
+      const fileKey = deriveFileKey(masterKey, header.subarray(MAGIC.length));
+      if (end < start) {
+        // empty file or empty range
+        return;
+      }
+
+      const firstIndex = Math.floor(start / chunkSize);
+      const endIndex = Math.floor(end / chunkSize);
+      for (let index = firstIndex; index <= endIndex; index++) {
+        const plainLength = index === lastIndex ? plainSize - index * chunkSize : chunkSize;
+        const encrypted = Buffer.alloc(plainLength + TAG_LENGTH);
+        const { bytesRead } = await handle.read(encrypted, 0, encrypted.length, HEADER_LENGTH + index * (chunkSize + TAG_LENGTH));
+        if (bytesRead !== encrypted.length) {
+          throw new Error("Encrypted file is truncated");
+        }
+        const decipher = crypto.createDecipheriv("aes-256-gcm", fileKey, chunkNonce(index));
+        decipher.setAAD(chunkAad(index === lastIndex));
+        decipher.setAuthTag(encrypted.subarray(plainLength));
+        const plaintext = Buffer.concat([decipher.update(encrypted.subarray(0, plainLength)), decipher.final()]);
+
+        const chunkStart = index * chunkSize;
+        yield plaintext.subarray(Math.max(0, start - chunkStart), Math.min(plainLength, end - chunkStart + 1));
+      }
+    } finally {
+      await handle.close();
+    }
+  })());
+}
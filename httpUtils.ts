@@ -0,0 +1,160 @@
+import type { IncomingHttpHeaders, ServerResponse } from "http";
+
+export type ByteRange = { start: number; end: number }; // both inclusive
+
+// more ranges than this in one request are ignored and full file is served
+export const MAX_RANGES = 50;
+
+/**
+ * Parses "Range: bytes=..." header against the file size.
+ * @returns undefined if header is missing or malformed (it should be ignored and full content served),
+ * "unsatisfiable" if none of the ranges overlap the file, otherwise list of ranges in requested order
+ */
+export function parseRangeHeader(header: string | undefined, size: number): ByteRange[] | "unsatisfiable" | undefined {
+  if (!header) {
+    return undefined;
+  }
+  const match = /^\s*bytes\s*=(.+)$/i.exec(header);
+  if (!match) {
+    return undefined;
+  }
+  const parts = match[1].split(",").map((part) => part.trim()).filter(Boolean);
+  if (parts.length === 0 || parts.length > MAX_RANGES) {
+    return undefined;
+  }
+
+  const ranges: ByteRange[] = [];
+  for (const part of parts) {
+    const partMatch = /^(\d*)-(\d*)$/.exec(part);
+    if (!partMatch || (partMatch[1] === "" && partMatch[2] === "")) {
+      return undefined;
+    }
+    if (partMatch[1] === "") {
+      // suffix range e.g. "-500" - last 500 bytes
+      const suffixLength = parseInt(partMatch[2], 10);
+      if (suffixLength === 0 || size === 0) {
+        continue;
+      }
+      ranges.push({ start: Math.max(0, size - suffixLength), end: size - 1 });
+      continue;
+    }
+    const start = parseInt(partMatch[1], 10);
+    if (partMatch[2] !== "" && parseInt(partMatch[2], 10) < start) {
+      return undefined;
+    }
+    const end = partMatch[2] === "" ? size - 1 : parseInt(partMatch[2], 10);
+    if (start >= size) {
+      continue;
+    }
+    ranges.push({ start, end: Math.min(end, size - 1) });
+  }
+
+  if (ranges.length === 0) {
+    return "unsatisfiable";
+  }
+  return ranges;
+}
+
+function parseEtagList(header: string): string[] {
+  return header.split(",").map((tag) => tag.trim()).filter(Boolean);
+}
+
+function stripWeak(tag: string): string {
+  return tag.startsWith("W/") ? tag.slice(2) : tag;
+}
+
+function parseHttpDate(value: string | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const time = Date.parse(value);
+  return isNaN(time) ? undefined : time;
+}
+
+// HTTP dates have second precision, so compare in seconds
+function toSeconds(time: number): number {
+  return Math.floor(time / 1000);
+}
+
+/**
+ * Evaluates conditional request headers (RFC 9110, section 13.2.2) for GET/HEAD.
+ * @param etag - strong quoted ETag of the representation e.g. "\"abc\""
+ * @param lastModified - last modification time in milliseconds
+ * @returns 412 if request precondition failed, 304 if client copy is fresh, otherwise 200
+ */
+export function evaluatePreconditions(headers: IncomingHttpHeaders, etag: string, lastModified: number): 200 | 304 | 412 {
+  const ifMatch = headers["if-match"];
+  if (ifMatch) {
+    const tags = parseEtagList(ifMatch);
+    // If-Match uses strong comparison, weak tags never match
+    if (!tags.includes("*") && (etag.startsWith("W/") || !tags.includes(etag))) {
+      return 412;
+    }
+  } else {
+    const ifUnmodifiedSince = parseHttpDate(headers["if-unmodified-since"]);
+    if (ifUnmodifiedSince !== undefined && toSeconds(lastModified) > toSeconds(ifUnmodifiedSince)) {
+      return 412;
+    }
+  }
+
+  const ifNoneMatch = headers["if-none-match"];
+  if (ifNoneMatch) {
+    // If-None-Match uses weak comparison
+    const tags = parseEtagList(ifNoneMatch).map(stripWeak);
+    if (tags.includes("*") || tags.includes(stripWeak(etag))) {
+      return 304;
+    }
+  } else {
+    const ifModifiedSince = parseHttpDate(headers["if-modified-since"]);
+    if (ifModifiedSince !== undefined && toSeconds(lastModified) <= toSeconds(ifModifiedSince)) {
+      return 304;
+    }
+  }
+  return 200;
+}
+
+/**
+ * Checks "If-Range" header. Range should be applied only if representation did not change.
+ */
+export function ifRangeMatches(headers: IncomingHttpHeaders, etag: string, lastModified: number): boolean {
+  const ifRange = headers["if-range"] as string | undefined;
+  if (!ifRange) {
+    return true;
+  }
+  if (ifRange.trim().startsWith('"') || ifRange.trim().startsWith("W/")) {
+    // If-Range uses strong comparison, weak tags never match
+    return !etag.startsWith("W/") && ifRange.trim() === etag;
+  }
+  const date = parseHttpDate(ifRange);
+  return date !== undefined && toSeconds(date) === toSeconds(lastModified);
+}
+
+// query parameters of the request URL, repeated parameters are collected to arrays
+export type RequestQuery = Record<string, string | string[]>;
+
+export function parseQuery(search: string): RequestQuery {
+  const query: RequestQuery = {};
+  for (const [name, value] of new URLSearchParams(search)) {
+    const existing = query[name];
+    if (existing === undefined) {
+      query[name] = value;
+    } else {
+      query[name] = ([] as string[]).concat(existing, value);
+    }
+  }
+  return query;
+}
+
+/**
+ * Ends response with status and optional plain text message, works with plain Node.js response and Express response.
+ */
+export function sendText(res: ServerResponse, status: number, message?: string): void {
+  res.statusCode = status;
+  if (message === undefined) {
+    res.end();
+    return;
+  }
+  res.setHeader("Content-Type", "text/plain; charset=utf-8");
+  res.setHeader("Content-Length", Buffer.byteLength(message));
+  res.end(message);
+}
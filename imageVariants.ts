@@ -0,0 +1,141 @@
+import crypto from "crypto";
+import type { Sharp } from "sharp";
+
+/**
+ * Resized or recompressed copy of the image, e.g. thumbnail for list views. Parameters are passed in query parameters
+ * and covered by the URL signature, so client can't make the server resize images to arbitrary sizes.
+ * Requires optional "sharp" dependency to be installed.
+ */
+export interface ImageVariantOptions {
+  width?: number; // maximum width in pixels, images are never enlarged
+  height?: number; // maximum height in pixels
+  fit?: "cover" | "contain" | "fill" | "inside" | "outside"; // how image fits into width and height, default "cover"
+  format?: "webp" | "avif" | "jpeg" | "png"; // output format, default is the format of the original
+  quality?: number; // 1-100, can be set only together with format
+}
+
+export const MAX_IMAGE_VARIANT_DIMENSION = 4096;
+
+const FITS = ["cover", "contain", "fill", "inside", "outside"];
+const FORMATS = ["webp", "avif", "jpeg", "png"];
+
+// types which sharp can read and write, other files (including SVG) are not transformed
+const SOURCE_CONTENT_TYPES = ["image/jpeg", "image/png", "image/webp", "image/avif", "image/gif", "image/tiff"];
+
+// order matters: params are signed as JSON, so they should always be serialized in the same order
+const VARIANT_PARAMS = {
+  width: "variant-width",
+  height: "variant-height",
+  fit: "variant-fit",
+  format: "variant-format",
+  quality: "variant-quality",
+} as const;
+
+export function imageVariantToParams(variant: ImageVariantOptions = {}): Record<string, string> {
+  const params: Record<string, string> = {};
+  for (const [name, param] of Object.entries(VARIANT_PARAMS)) {
+    const value = variant[name as keyof ImageVariantOptions];
+    if (value !== undefined) {
+      params[param] = value.toString();
+    }
+  }
+  return params;
+}
+
+/**
+ * Picks variant parameters from request query in the same order as they were signed.
+ */
+export function imageVariantParamsFromQuery(query: Record<string, any> | URLSearchParams): Record<string, string> {
+  const params: Record<string, string> = {};
+  for (const param of Object.values(VARIANT_PARAMS)) {
+    const value = query instanceof URLSearchParams ? query.get(param) : query[param];
+    if (typeof value === "string") {
+      params[param] = value;
+    }
+  }
+  return params;
+}
+
+/**
+ * Returns undefined if params do not request a variant.
+ */
+export function imageVariantFromParams(params: Record<string, string>): ImageVariantOptions | undefined {
+  if (!Object.keys(params).length) {
+    return undefined;
+  }
+  const toNumber = (value: string | undefined) => value === undefined ? undefined : parseInt(value, 10);
+  return {
+    width: toNumber(params[VARIANT_PARAMS.width]),
+    height: toNumber(params[VARIANT_PARAMS.height]),
+    fit: params[VARIANT_PARAMS.fit] as ImageVariantOptions["fit"],
+    format: params[VARIANT_PARAMS.format] as ImageVariantOptions["format"],
+    quality: toNumber(params[VARIANT_PARAMS.quality]),
+  };
+}
+
+export function validateImageVariant(variant: ImageVariantOptions): void {
+  for (const name of ["width", "height"] as const) {
+    const value = variant[name];
+    if (value !== undefined && (!Number.isInteger(value) || value < 1 || value > MAX_IMAGE_VARIANT_DIMENSION)) {
+      throw new Error(`Image variant ${name} should be an integer from 1 to ${MAX_IMAGE_VARIANT_DIMENSION}`);
+    }
+  }
+  if (variant.fit !== undefined && !FITS.includes(variant.fit)) {
+    throw new Error(`Image variant fit should be one of ${FITS.join(", ")}`);
+  }
+  if (variant.format !== undefined && !FORMATS.includes(variant.format)) {
+    throw new Error(`Image variant format should be one of ${FORMATS.join(", ")}`);
+  }
+  if (variant.quality !== undefined) {
+    if (!Number.isInteger(variant.quality) || variant.quality < 1 || variant.quality > 100) {
+      throw new Error("Image variant quality should be an integer from 1 to 100");
+    }
+    if (variant.format === undefined) {
+      throw new Error("Image variant quality can be set only together with format");
+    }
+  }
+}
+
+export function isImageVariantSource(contentType: string): boolean {
+  return SOURCE_CONTENT_TYPES.includes(contentType.split(";")[0].trim().toLowerCase());
+}
+
+/**
+ * Name of the cached variant, it includes checksum of the original, so variant of replaced content is never served.
+ */
+export function imageVariantCacheName(sourceSha256: string, variant: ImageVariantOptions): string {
+  return crypto.createHash("sha256")
+    .update(sourceSha256)
+    .update(JSON.stringify(imageVariantToParams(variant)))
+    .digest("hex");
+}
+
+export function imageVariantContentType(sourceContentType: string, variant: ImageVariantOptions): string {
+  return variant.format ? `image/${variant.format}` : sourceContentType;
+}
+
+/**
+ * Creates duplex stream which reads the original image and writes the variant.
+ */
+export async function createImageTransform(variant: ImageVariantOptions): Promise<Sharp> {
+  let sharp: typeof import("sharp");
+  try {
+    sharp = (await import("sharp")).default;
+  } catch (e) {
+    throw new Error(`Image variants require "sharp" package to be installed: ${e}`);
+  }
+  // rotate() applies EXIF orientation, metadata like EXIF and GPS location is not copied to the variant
+  let image = sharp({ failOn: "error" }).rotate();
+  if (variant.width !== undefined || variant.height !== undefined) {
+    image = image.resize({
+      width: variant.width,
+      height: variant.height,
+      fit: variant.fit ?? "cover",
+      withoutEnlargement: true,
+    });
+  }
+  if (variant.format) {
+    image = image.toFormat(variant.format, { quality: variant.quality });
+  }
+  return image;
+}
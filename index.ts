@@ -2,52 +2,379 @@ import fs from "fs/promises";
 import path from "path";
 import AdminForth, { StorageAdapter, afLogger } from "adminforth";
 import crypto from "crypto";
-import { createWriteStream } from 'fs';
-import { Level } from 'level';
-import { Express } from "express";
+import { createReadStream, createWriteStream } from 'fs';
+import { finished, Readable, Transform, Writable } from 'stream';
+import { EventEmitter, once } from 'events';
+import { AsyncLocalStorage } from 'async_hooks';
+import { pipeline } from 'stream/promises';
+import type { IncomingMessage, ServerResponse } from "http";
+import type { Express, RequestHandler } from "express";
+import {
+  RequestQuery,
+  evaluatePreconditions,
+  ifRangeMatches,
+  parseQuery,
+  parseRangeHeader,
+  sendText,
+} from "./httpUtils.js";
+import {
+  UploadPolicy,
+  UploadPolicyError,
+  assertDeclaredLength,
+  contentTypeMatches,
+  createUploadPolicyLimiter,
+  uploadParamsFromQuery,
+  uploadPolicyFromParams,
+  uploadPolicyToParams,
+  validateUploadPolicy,
+} from "./uploadPolicy.js";
+
+import { LevelMetadataStore, migrateLevelMetadata } from "./levelMetadataStore.js";
+import { SidecarMetadataStore } from "./sidecarMetadataStore.js";
+import { SqliteMetadataStore } from "./sqliteMetadataStore.js";
+import { SNIFF_LENGTH, findContentTypeMismatch, sniffFileContentType } from "./contentSniffing.js";
+import { compareKeys, prefixRange } from "./keyRange.js";
+import {
+  DEFAULT_CHUNK_SIZE,
+  EncryptionOptions,
+  canDecryptFile,
+  createDecryptStream,
+  createEncryptStream,
+  decodeEncryptionKey,
+  encryptedSize,
+  isEncryptedFile,
+} from "./encryption.js";
+import {
+  formatContentDisposition,
+  responseOverridesFromParams,
+  responseOverridesToParams,
+  responseParamsFromQuery,
+  validateResponseOverrides,
+} from "./responseOverrides.js";
+import {
+  uploadMetadataFromParams,
+  uploadMetadataParamsFromQuery,
+  uploadMetadataToParams,
+  userMetadataHeaders,
+  validateTags,
+  validateUploadMetadata,
+  validateUserMetadata,
+} from "./userMetadata.js";
+import { QuotaOptions, createQuotaLimiter, resolveQuotaRules, validateQuotaOptions } from "./quota.js";
+import {
+  ImageVariantOptions,
+  createImageTransform,
+  imageVariantCacheName,
+  imageVariantContentType,
+  imageVariantFromParams,
+  imageVariantParamsFromQuery,
+  imageVariantToParams,
+  isImageVariantSource,
+  validateImageVariant,
+} from "./imageVariants.js";
+import {
+  DEFAULT_TRASH_RETENTION_PERIOD,
+  DEFAULT_TRASH_SWEEP_INTERVAL,
+  VersioningOptions,
+  createVersionId,
+  isValidVersionId,
+} from "./versioning.js";
+import {
+  ResumableUploadSession,
+  TUS_CHUNK_CONTENT_TYPE,
+  TUS_EXTENSIONS,
+  TUS_VERSION,
+  isValidUploadId,
+  parseTusMetadata,
+  parseTusNumber,
+} from "./resumableUpload.js";
+import {
+  RateLimitOptions,
+  createBandwidthLimiter,
+  createRequestLimiter,
+  createThrottle,
+  getClientIp,
+  validateRateLimitOptions,
+} from "./rateLimit.js";
+import { AccessLogEntry, createStorageMetrics, formatPrometheusMetrics, incrementMetric } from "./metrics.js";
+import {
+  SNAPSHOT_FORMAT,
+  SNAPSHOT_VERSION,
+  SnapshotManifest,
+  SnapshotObject,
+  getSnapshotObjectPath,
+  hashSnapshotObject,
+  readSnapshotManifest,
+  removeEmptySnapshotFolders,
+  writeSnapshotManifest,
+} from "./snapshot.js";
+import {
+  BeforeUploadContext,
+  BeforeUploadResult,
+  CopyObjectOptions,
+  DownloadUrlOptions,
+  ExportSnapshotOptions,
+  FsckIssue,
+  FsckOptions,
+  FsckReport,
+  ImportSnapshotOptions,
+  ListObjectsOptions,
+  ListObjectsResult,
+  MetadataStore,
+  ObjectMetadata,
+  ObjectVersion,
+  PresignOptions,
+  SnapshotReport,
+  StorageEvents,
+  StorageUsage,
+  UploadMetadata,
+  UploadUrlOptions,
+  VerifyReport,
+  VerifyResult,
+} from "./types.js";
+
+export type { UploadPolicy } from "./uploadPolicy.js";
+export type { ResponseOverrides } from "./responseOverrides.js";
+export type { EncryptionOptions } from "./encryption.js";
+export type { QuotaOptions, QuotaRule } from "./quota.js";
+export type { VersioningOptions } from "./versioning.js";
+export type { ImageVariantOptions } from "./imageVariants.js";
+export type { SnapshotManifest, SnapshotObject } from "./snapshot.js";
+export type { RateLimitOptions, RateLimitRule } from "./rateLimit.js";
+export type { AccessLogEntry } from "./metrics.js";
+export { PROMETHEUS_CONTENT_TYPE } from "./metrics.js";
+export type {
+  BeforeUploadContext,
+  BeforeUploadResult,
+  CopyObjectOptions,
+  DownloadUrlOptions,
+  ExportSnapshotOptions,
+  FsckIssue,
+  FsckOptions,
+  FsckReport,
+  ImportSnapshotOptions,
+  KeyRange,
+  ListedObject,
+  ListObjectsOptions,
+  ListObjectsResult,
+  MetadataStore,
+  ObjectMetadata,
+  ObjectVersion,
+  PresignOptions,
+  SnapshotReport,
+  StorageEvents,
+  StorageUsage,
+  UploadMetadata,
+  UploadUrlOptions,
+  VerifyReport,
+  VerifyResult,
+} from "./types.js";
+export { LevelMetadataStore, SidecarMetadataStore, SqliteMetadataStore };
 
 declare global {
   var adminforth: AdminForth;
 }
 
+// parts of AdminForth instance used by setupLifecycle to mount routes under its base URL
+export interface AdminForthRoutesHost {
+  config?: { baseUrl?: string };
+  express?: { expressApp?: Express };
+}
+
 interface StorageLocalFilesystemOptions {
   fileSystemFolder: string; // folder where files will be stored
   mode?: "public" | "private"; // public if all files should be accessible from the web, private only if could be accessed by temporary presigned links
-  signingSecret: string; // secret used to generate presigned URLs
+  signingSecret?: string; // secret used to generate presigned URLs, required if currentSigningKeyId is not set
+  signingKeys?: Record<string, string>; // kid -> secret, URLs signed by a key stop working once it is removed from the list
+  currentSigningKeyId?: string; // kid of signingKeys used to sign new URLs, signingSecret is used if not set
+  allowLegacySignatures?: boolean; // accept download signatures of old versions which signed only the key, default true
   adminServeBaseUrl?: string; // base URL for serving files e.g. static/uploads. If not defined will be generated automatically
     // please note that is adminforth base URL is set, files will be available on `${adminforth.config.baseUrl}/${adminServeBaseUrl}/{key}`
+  mountRoutes?: boolean; // mount request handler into Express app of AdminForth in setupLifecycle before its routes, default true.
+    // Set to false and mount expressMiddleware() yourself to control the order, or use getRequestHandler() without AdminForth
+  cacheControl?: {
+    public?: string; // Cache-Control header for downloads in public mode, default "public, max-age=31536000, immutable" (keys can't be overwritten)
+    private?: string; // Cache-Control header for downloads by presigned links in private mode, default "private, no-store"
+  };
+  retentionPeriod?: number; // seconds since creation after which file marked for deletion is removed, default 86400 (24h)
+  retentionRules?: { prefix: string; retentionPeriod: number }[]; // retention for keys starting with prefix, longest matching prefix wins
+  sweepInterval?: number; // seconds between runs of the deletion sweeper, default 600 (10 minutes)
+  sweepBatchSize?: number; // maximum number of files removed by one sweeper run, default 1000
+  metadataStore?: "level" | "sidecar" | "sqlite" | MetadataStore; // where metadata is kept, default "level".
+    // "level" can be used only by one process. Use "sidecar" or "sqlite" if several processes share fileSystemFolder.
+    // Existing Level data is copied to "sidecar" or "sqlite" store on first start.
+  storeMd5?: boolean; // calculate and store MD5 of uploaded files in addition to SHA-256, default false
+  encryption?: EncryptionOptions; // encrypt files at rest with AES-256-GCM, files stored before enabling stay readable
+  quota?: QuotaOptions; // limits of total size of stored objects, uploads which exceed them are rejected with 507
+  contentTypes?: {
+    allowed?: string[]; // MIME patterns which can be uploaded e.g. ["image/*", "application/pdf"], any type if not set
+    denied?: string[]; // MIME patterns which can't be uploaded e.g. ["text/html", "image/svg+xml"]
+    sniff?: boolean; // reject uploads which content does not look like declared content type (by magic bytes), default true
+    attachment?: string[]; // MIME patterns which are always served as attachment, default are types which can run scripts
+  };
+  contentSecurityPolicy?: string | false; // Content-Security-Policy header of served files, default forbids scripts, false to disable
+  versioning?: VersioningOptions; // keep replaced and deleted objects in the trash, so they can be restored
+  accessLog?: boolean | ((entry: AccessLogEntry) => void); // log every request to adapter routes, true writes JSON by afLogger.info
+  rateLimit?: RateLimitOptions; // limits of requests and download bandwidth per client IP and per presigned URL
+  hooks?: {
+    // called before uploaded file becomes downloadable, e.g. to run virus scanner, upload fails if file is rejected or quarantined
+    beforeUpload?: (context: BeforeUploadContext) => BeforeUploadResult | Promise<BeforeUploadResult>;
+  };
+}
+
+// parameters which are added to every presigned URL and covered by its signature
+const SIGNED_URL_PARAMS = ["iat", "nonce"] as const;
+
+function getQueryValue(query: Record<string, any> | URLSearchParams, name: string): string | undefined {
+  const value = query instanceof URLSearchParams ? query.get(name) : query[name];
+  const first = Array.isArray(value) ? value[0] : value;
+  return typeof first === "string" ? first : undefined;
 }
 
+// types which browser renders as documents with scripts, serving them inline from admin origin allows stored XSS
+const DEFAULT_ATTACHMENT_CONTENT_TYPES = [
+  "text/html",
+  "application/xhtml+xml",
+  "image/svg+xml",
+  "text/xml",
+  "application/xml",
+  "text/xsl",
+  "application/xslt+xml",
+  "text/javascript",
+  "application/javascript",
+  "application/x-javascript",
+  "application/ecmascript",
+  "multipart/x-mixed-replace",
+];
+
+const DEFAULT_CONTENT_SECURITY_POLICY = "default-src 'none'; img-src 'self' data:; media-src 'self'; style-src 'unsafe-inline'";
+
+const ALLOWED_METHODS = "GET, HEAD, PUT, POST, PATCH, DELETE, OPTIONS";
+
+// temp upload file is considered abandoned if nothing was written to it for this time
+const STALE_STAGING_FILE_AGE = 60 * 60 * 1000;
+
 export default class AdminForthStorageAdapterLocalFilesystem implements StorageAdapter {
   static registredPrexises: string[] = [];
 
   private options: StorageLocalFilesystemOptions;
   private expressBase: string;
-  private adminforthSlashedPrefix: string; // slashed prefix of the base URL
-
-  private metadataDb: Level;
-  private candidatesForDeletionDb: Level;
+  private serving = false; // request handler passes requests through until setupLifecycle and after dispose
+  private internalFolder: string; // folder with databases and temp files, not accessible by keys
+  private stagingFolder: string; // uploads are written here first and then moved to the final path
+
+  private metadataStore: MetadataStore;
+
+  private sweepTimer: NodeJS.Timeout | undefined;
+  private trashSweepTimer: NodeJS.Timeout | undefined;
+  private sweepInProgress: Promise<number> | undefined; // dispose waits for it before closing metadata store
+  // quota check and commit of uploads are done one by one, so concurrent uploads can't exceed the quota together.
+  // Queue works within one process, processes sharing the folder can exceed the quota by size of concurrent uploads
+  private quotaQueue: Promise<unknown> = Promise.resolve();
+  private quotaQueueContext = new AsyncLocalStorage<boolean>(); // set while operation of the queue runs
+
+  private emitter = new EventEmitter();
+
+  // ids of resumable uploads which are being written by PATCH request, tus clients send chunks one by one anyway
+  private resumableUploadLocks = new Set<string>();
+  // variants which are being generated, concurrent requests for the same variant wait for the same result
+  private imageVariantJobs = new Map<string, Promise<{ filePath: string; metadata: ObjectMetadata }>>();
+
+  private metrics = createStorageMetrics();
+  // access log entries of requests in progress, handlers add transferred bytes to them
+  private requestLogs = new WeakMap<IncomingMessage, AccessLogEntry>();
+  private rateLimiters: {
+    ip?: ReturnType<typeof createRequestLimiter>;
+    url?: ReturnType<typeof createRequestLimiter>;
+    ipBandwidth?: ReturnType<typeof createBandwidthLimiter>;
+    urlBandwidth?: ReturnType<typeof createBandwidthLimiter>;
+  } = {};
 
   constructor(options: StorageLocalFilesystemOptions) {
     this.options = options;
     if (!this.options.mode) {
       this.options.mode = "private";
     }
+    if (this.options.encryption) {
+      const { keys, currentKeyId, chunkSize } = this.options.encryption;
+      if (!keys?.[currentKeyId]) {
+        throw new Error(`Encryption key ${currentKeyId} is not defined in encryption.keys`);
+      }
+      // chunk size is stored in metadata of every encrypted object, wrong one makes them unreadable
+      if (chunkSize !== undefined && !(Number.isInteger(chunkSize) && chunkSize > 0)) {
+        throw new Error("Encryption chunkSize should be a positive integer");
+      }
+      // fail early on malformed keys
+      for (const [keyId, key] of Object.entries(keys)) {
+        decodeEncryptionKey(keyId, key);
+      }
+    }
+    for (const name of ["sweepInterval", "sweepBatchSize"] as const) {
+      const value = this.options[name];
+      // zero or negative interval makes setInterval fire continuously
+      if (value !== undefined && !(Number.isFinite(value) && value > 0)) {
+        throw new Error(`${name} should be a positive number`);
+      }
+    }
+    if (this.options.sweepBatchSize !== undefined && !Number.isInteger(this.options.sweepBatchSize)) {
+      throw new Error("sweepBatchSize should be an integer");
+    }
+    const retentionPeriods = [this.options.retentionPeriod, ...(this.options.retentionRules ?? []).map((rule) => rule.retentionPeriod)];
+    if (retentionPeriods.some((value) => value !== undefined && !(Number.isFinite(value) && value >= 0))) {
+      throw new Error("retentionPeriod should be a non-negative number of seconds");
+    }
+    if ((this.options.retentionRules ?? []).some((rule) => typeof rule.prefix !== "string" || rule.retentionPeriod === undefined)) {
+      throw new Error("retentionRules should have prefix and retentionPeriod");
+    }
+    if (this.options.quota) {
+      validateQuotaOptions(this.options.quota);
+    }
+    if (this.options.rateLimit) {
+      validateRateLimitOptions(this.options.rateLimit);
+      const { perIp, perUrl, bandwidthPerIp, bandwidthPerUrl } = this.options.rateLimit;
+      this.rateLimiters = {
+        ip: perIp && createRequestLimiter(perIp),
+        url: perUrl && createRequestLimiter(perUrl),
+        ipBandwidth: bandwidthPerIp && createBandwidthLimiter(bandwidthPerIp),
+        urlBandwidth: bandwidthPerUrl && createBandwidthLimiter(bandwidthPerUrl),
+      };
+    }
+    const { currentSigningKeyId, signingKeys } = this.options;
+    if (currentSigningKeyId !== undefined && !signingKeys?.[currentSigningKeyId]) {
+      throw new Error(`Signing key ${currentSigningKeyId} is not defined in signingKeys`);
+    }
   }
 
-  presignUrl(urlPath: string, expiresIn: number, payload: Record<string, string> = {}): string {
+  presignUrl(urlPath: string, expiresIn: number, payload: Record<string, string> = {}, options: PresignOptions = {}): string {
     const expires = Math.floor(Date.now() / 1000) + expiresIn;
+    // issue time in milliseconds is checked against revocations
+    const signedPayload: Record<string, string> = { ...payload, iat: Date.now().toString() };
+    if (options.singleUse) {
+      if (!this.metadataStore.consumeNonce) {
+        throw new Error("Metadata store does not support single-use URLs");
+      }
+      signedPayload.nonce = crypto.randomUUID();
+    }
+    const kid = this.options.currentSigningKeyId;
 
     const params = new URLSearchParams({
-      ...payload,
+      ...signedPayload,
+      ...(kid !== undefined ? { kid } : {}),
       expires: expires.toString(),
-      signature: this.sign(urlPath, expires, payload),
+      signature: this.sign(urlPath, expires, signedPayload, kid),
     });
     return `${urlPath}?${params.toString()}`;
   }
 
-  sign(urlPath: string, expires: number, payload: Record<string, string> = {}): string {
-    const hmac = crypto.createHmac("sha256", this.options.signingSecret);
+  /**
+   * @param kid - id of the key in signingKeys, signingSecret is used if not set
+   */
+  sign(urlPath: string, expires: number, payload: Record<string, string> = {}, kid?: string): string {
+    const secret = kid === undefined ? this.options.signingSecret : this.options.signingKeys?.[kid];
+    if (!secret) {
+      throw new Error(kid === undefined ? "signingSecret is not set in the options" : `Signing key ${kid} is not configured`);
+    }
+    const hmac = crypto.createHmac("sha256", secret);
     hmac.update(urlPath);
     hmac.update(expires.toString());
     hmac.update(JSON.stringify(payload));
@@ -62,19 +389,102 @@ export default class AdminForthStorageAdapterLocalFilesystem implements StorageA
       && crypto.timingSafeEqual(signatureBuffer, expectedSignatureBuffer);
   }
 
+  /**
+   * Checks signature and expiration of presigned download URL.
+   * Revocations are stored in metadata store, so they are checked only by verifyPresignedAccessAsync,
+   * and single-use URLs are always rejected here because only verifyPresignedAccessAsync can use them up.
+   */
   verifyPresignedAccess(key: string, query: Record<string, any> | URLSearchParams): { ok: true } | { ok: false; message: string } {
-    if (this.options.mode === "public") {
+    const payload = this.getPresignedAccessPayload(query);
+    if (!payload) {
+      return { ok: true };
+    }
+    const access = this.checkUrlSignature(key, query, payload, this.options.allowLegacySignatures ?? true);
+    if (access.ok === false) {
+      return access;
+    }
+    if (getQueryValue(query, "nonce") !== undefined) {
+      return { ok: false, message: "Single-use URLs should be checked with verifyPresignedAccessAsync" };
+    }
+    return { ok: true };
+  }
+
+  /**
+   * Checks presigned download URL, including revocations. Single-use URL is consumed by this check.
+   * @param consumeNonce - false to check single-use URL without using it up (e.g. for HEAD requests)
+   */
+  async verifyPresignedAccessAsync(
+    key: string,
+    query: Record<string, any> | URLSearchParams,
+    consumeNonce = true,
+  ): Promise<{ ok: true } | { ok: false; message: string }> {
+    const payload = this.getPresignedAccessPayload(query);
+    if (!payload) {
       return { ok: true };
     }
+    const access = await this.verifySignedUrl(key, query, payload, this.options.allowLegacySignatures ?? true);
+    if (access.ok === false || !consumeNonce) {
+      return access;
+    }
+    return this.consumeUrlNonce(query);
+  }
 
-    const getQueryValue = (name: string) => {
-      const value = query instanceof URLSearchParams ? query.get(name) : query[name];
-      return Array.isArray(value) ? value[0] : value;
+  /**
+   * Signed parameters of download URL, undefined if URL does not need signature (public mode).
+   */
+  getPresignedAccessPayload(query: Record<string, any> | URLSearchParams): Record<string, string> | undefined {
+    const variantParams = imageVariantParamsFromQuery(query);
+    // image variants are signed even in public mode, so nobody can trigger arbitrary resize work
+    if (this.options.mode === "public" && !Object.keys(variantParams).length) {
+      return undefined;
+    }
+    // response overrides and variant parameters are signed together with the URL
+    return {
+      ...(this.options.mode === "public" ? {} : responseParamsFromQuery(query)),
+      ...variantParams,
     };
+  }
+
+  /**
+   * Verifies signature, expiration and revocation of the presigned URL.
+   * @param payload - signed parameters specific for the URL type, e.g. content type and upload policy for uploads
+   * @param allowLegacy - accept signature of the key without kid, payload and base URL made by old versions
+   */
+  async verifySignedUrl(
+    key: string,
+    query: Record<string, any> | URLSearchParams,
+    payload: Record<string, string>,
+    allowLegacy = false,
+  ): Promise<{ ok: true } | { ok: false; message: string }> {
+    const access = this.checkUrlSignature(key, query, payload, allowLegacy);
+    if (access.ok === false) {
+      return access;
+    }
+
+    const revokedAt = Math.max(
+      await this.metadataStore.getUrlRevocation?.("") ?? -Infinity,
+      await this.metadataStore.getUrlRevocation?.(key) ?? -Infinity,
+    );
+    if (access.issuedAt < revokedAt) {
+      return { ok: false, message: "Signature revoked" };
+    }
+
+    return { ok: true };
+  }
 
-    const expiresValue = getQueryValue("expires");
-    const signature = getQueryValue("signature");
-    if (typeof expiresValue !== "string" || !/^\d+$/.test(expiresValue) || typeof signature !== "string") {
+  /**
+   * Verifies signature and expiration of the presigned URL, without revocations.
+   * @returns issue time of the URL, -Infinity for URLs of old versions
+   */
+  checkUrlSignature(
+    key: string,
+    query: Record<string, any> | URLSearchParams,
+    payload: Record<string, string>,
+    allowLegacy = false,
+  ): { ok: true; issuedAt: number } | { ok: false; message: string } {
+    const expiresValue = getQueryValue(query, "expires");
+    const signature = getQueryValue(query, "signature");
+    if (expiresValue === undefined || !/^\d+$/.test(expiresValue) || signature === undefined) {
       return { ok: false, message: "Missing signature" };
     }
 
@@ -83,19 +493,69 @@ export default class AdminForthStorageAdapterLocalFilesystem implements StorageA
       return { ok: false, message: "Signature expired" };
     }
 
+    const kid = getQueryValue(query, "kid");
+    if (kid === undefined ? !this.options.signingSecret : !this.options.signingKeys?.[kid]) {
+      return { ok: false, message: "Unknown signing key" };
+    }
+    const signedPayload = { ...payload };
+    for (const name of SIGNED_URL_PARAMS) {
+      const value = getQueryValue(query, name);
+      if (value !== undefined) {
+        signedPayload[name] = value;
+      }
+    }
     const urlPath = `${this.expressBase}/${key}`;
-    const expectedSignature = this.sign(urlPath, expires);
-    const legacyExpectedSignature = this.sign(key, expires);
-    if (
-      !this.signaturesMatch(signature, expectedSignature)
-      && !this.signaturesMatch(signature, legacyExpectedSignature)
-    ) {
+    const isLegacy = allowLegacy && kid === undefined && Object.keys(signedPayload).length === 0
+      && this.signaturesMatch(signature, this.sign(key, expires));
+    if (!isLegacy && !this.signaturesMatch(signature, this.sign(urlPath, expires, signedPayload, kid))) {
       return { ok: false, message: "Invalid signature" };
     }
 
+    // URLs of old versions have no issue time, so they are revoked by any revocation
+    return { ok: true, issuedAt: signedPayload.iat === undefined ? -Infinity : parseInt(signedPayload.iat, 10) };
+  }
+
+  /**
+   * Marks nonce of single-use URL as used, does nothing for regular URLs. Should be called after verifySignedUrl.
+   */
+  async consumeUrlNonce(query: Record<string, any> | URLSearchParams): Promise<{ ok: true } | { ok: false; message: string }> {
+    const nonce = getQueryValue(query, "nonce");
+    if (nonce === undefined) {
+      return { ok: true };
+    }
+    if (!this.metadataStore.consumeNonce) {
+      return { ok: false, message: "Single-use URLs are not supported" };
+    }
+    const expiresAt = parseInt(getQueryValue(query, "expires"), 10) * 1000;
+    if (!await this.metadataStore.consumeNonce(nonce, expiresAt)) {
+      return { ok: false, message: "Link was already used" };
+    }
     return { ok: true };
   }
 
+  /**
+   * Rejects all presigned URLs for the key which were issued before now.
+   * @param key - The key of the file e.g. "uploads/file.txt"
+   */
+  async revokeKey(key: string): Promise<void> {
+    if (!this.metadataStore.putUrlRevocation) {
+      throw new Error("Metadata store does not support URL revocation");
+    }
+    await this.metadataStore.putUrlRevocation(key, Date.now());
+  }
+
+  /**
+   * Rejects presigned URLs for all keys which were issued before the date, e.g. after a link leak.
+   */
+  async revokeUrlsIssuedBefore(date: Date): Promise<void> {
+    if (!this.metadataStore.putUrlRevocation) {
+      throw new Error("Metadata store does not support URL revocation");
+    }
+    const revokedAt = await this.metadataStore.getUrlRevocation?.("");
+    // revocation can't be undone by passing an earlier date
+    await this.metadataStore.putUrlRevocation("", Math.max(revokedAt ?? -Infinity, date.getTime()));
+  }
+
   parseKeyWithQuery(keyOrUrl: string): { key: string; query: URLSearchParams } {
     const queryStart = keyOrUrl.indexOf("?");
     const rawPath = queryStart === -1 ? keyOrUrl : keyOrUrl.slice(0, queryStart);
@@ -133,17 +593,48 @@ export default class AdminForthStorageAdapterLocalFilesystem implements StorageA
    * @param expiresIn - The expiration time in seconds for the presigned URL
    * @param contentType - The content type of the file to be uploaded, e.g. "image/png"
    * 
+   * Optional parameter which is not passed by AdminForth itself, but can be used for direct calls:
+   * @param policy - Upload restrictions (size limits, allowed content types) which are signed together with the URL.
+   * contentType might be empty if policy.allowedContentTypes is set, then any matching content type is accepted.
+   * @param options - e.g. { singleUse: true } for URL which can't be used for the second upload attempt,
+   * or metadata to store e.g. { originalFilename: "photo.png", userMetadata: { "uploaded-by": "42" } }
+   * 
+   * The same URL can be used to create resumable upload session by POST with tus protocol, e.g. for large files
+   * over unstable connection. Then contentType might be passed by client in "filetype" of Upload-Metadata if it is empty.
+   * Resumable uploads are not available while encryption is enabled, received chunks would be kept unencrypted.
+   * 
    * @returns A promise that resolves to an object containing the upload URL and any extra parameters which should be sent with PUT multipart form data
    */
   async getUploadSignedUrl(
     key: string,
     contentType: string,
-    expiresIn = 3600
+    expiresIn = 3600,
+    policy: UploadPolicy = {},
+    options: UploadUrlOptions = {},
   ): Promise<{ uploadUrl: string; uploadExtraParams: Record<string, string> }> {
     const urlPath = `${this.expressBase}/${key}`;
 
+    validateUploadPolicy(policy);
+    if (!contentType && !policy.allowedContentTypes?.length) {
+      throw new Error("contentType or policy.allowedContentTypes is required");
+    }
+    if (contentType && policy.allowedContentTypes?.length && !contentTypeMatches(contentType, policy.allowedContentTypes)) {
+      throw new Error(`Content type ${contentType} is not allowed by upload policy`);
+    }
+    if (contentType && !this.isContentTypeAllowed(contentType)) {
+      throw new Error(`Content type ${contentType} is not allowed`);
+    }
+    validateUploadMetadata(options);
+    if (await this.getRemainingQuota(key) < Math.max(1, policy.contentLength ?? policy.minSize ?? 0)) {
+      throw new Error(`Storage quota for ${key} is exhausted`);
+    }
+
     return {
-      uploadUrl: this.presignUrl(urlPath, expiresIn, { contentType }),
+      uploadUrl: this.presignUrl(urlPath, expiresIn, {
+        contentType: contentType ?? "",
+        ...uploadPolicyToParams(policy),
+        ...uploadMetadataToParams(options),
+      }, options),
       uploadExtraParams: {}
     }
   }
@@ -156,13 +647,28 @@ export default class AdminForthStorageAdapterLocalFilesystem implements StorageA
    * 
    * @param key - The key of the file to be downloaded e.g. "uploads/file.txt"
    * @param expiresIn - The expiration time in seconds for the presigned URL
+   * @param options - e.g. { singleUse: true } for URL which stops working after the first GET request,
+   * or response overrides e.g. { responseContentDisposition: "attachment" } to make browser download the file under its original name,
+   * or image variant e.g. { width: 200, height: 200, format: "webp" } for thumbnail which is generated on first request.
+   * Variant URLs are signed in public mode too.
    */
-  async getDownloadUrl(key: string, _expiresIn = 3600): Promise<string> {
+  async getDownloadUrl(key: string, _expiresIn = 3600, options: DownloadUrlOptions = {}): Promise<string> {
     const urlPath = `${this.expressBase}/${key}`;
+    validateResponseOverrides(options);
+    validateImageVariant(options);
+    const overrideParams = responseOverridesToParams(options);
+    const variantParams = imageVariantToParams(options);
     if (this.options.mode === "public") {
+      // public URLs are not signed, so anybody could change these parameters
+      if (options.singleUse || Object.keys(overrideParams).length) {
+        throw new Error("Single-use URLs and response overrides can't be used in public mode");
+      }
+      if (Object.keys(variantParams).length) {
+        return this.presignUrl(urlPath, _expiresIn, variantParams);
+      }
       return urlPath;
     } else {
-      return this.presignUrl(urlPath, _expiresIn);
+      return this.presignUrl(urlPath, _expiresIn, { ...overrideParams, ...variantParams }, options);
     }
   }
 
@@ -177,25 +683,19 @@ export default class AdminForthStorageAdapterLocalFilesystem implements StorageA
   }
 
   async markKeyForDeletion(key: string): Promise<void> {
-    const metadata = await this.metadataDb.get(key).catch((e) => {
-      afLogger.error(`Could not read metadata from db: ${e}`);
-      throw new Error(`Could not read metadata from db: ${e}`);
-    });
+    const metadata = await this.readMetadata(key);
     if (!metadata) {
       afLogger.error(`Metadata for key ${key} not found`);
       return;
     }
-    const metadataParsed = JSON.parse(metadata);
 
-    try {
-      await this.candidatesForDeletionDb.get(key);
+    const existingCandidate = await this.metadataStore.getCandidate(key).catch(() => undefined);
+    if (existingCandidate !== undefined) {
       // if key already exists, do nothing
       return;
-    } catch (e) {
-      // if key does not exist, continue
     }
     try {
-      await this.candidatesForDeletionDb.put(key, metadataParsed.createdAt)
+      await this.metadataStore.putCandidate(key, metadata.createdAt)
     } catch (e) {
       afLogger.error(`Could not write metadata to db: ${e}`);
       throw new Error(`Could not write metadata to db: ${e}`);
@@ -209,22 +709,61 @@ export default class AdminForthStorageAdapterLocalFilesystem implements StorageA
    * @param key - The key of the file to be uploaded e.g. "uploads/file.txt"
    */
   async markKeyForNotDeletion(key: string): Promise<void> {
+    let wasCandidate = false;
     try {
+      wasCandidate = await this.metadataStore.getCandidate(key) !== undefined;
       // if key exists, delete it
-      await this.candidatesForDeletionDb.del(key);
+      await this.metadataStore.delCandidate(key);
     } catch (e) {
       // if key does not exist, do nothing
     }
+    if (wasCandidate && this.emitter.listenerCount("committed")) {
+      const metadata = await this.readMetadata(key).catch(() => undefined);
+      if (metadata) {
+        this.emitEvent("committed", { key, metadata });
+      }
+    }
   }
 
-  async setupLifecycle(userUniqueIntanceId): Promise<void> {
+  /**
+   * Subscribes to adapter events, e.g. adapter.on("uploaded", ({ key, metadata }) => ...).
+   * Listeners might be async, their errors are logged and do not affect the operation.
+   */
+  on<E extends keyof StorageEvents>(event: E, listener: (payload: StorageEvents[E]) => unknown): this {
+    this.emitter.on(event, listener);
+    return this;
+  }
+
+  once<E extends keyof StorageEvents>(event: E, listener: (payload: StorageEvents[E]) => unknown): this {
+    this.emitter.once(event, listener);
+    return this;
+  }
+
+  off<E extends keyof StorageEvents>(event: E, listener: (payload: StorageEvents[E]) => unknown): this {
+    this.emitter.off(event, listener);
+    return this;
+  }
 
+  emitEvent<E extends keyof StorageEvents>(event: E, payload: StorageEvents[E]): void {
+    for (const listener of this.emitter.rawListeners(event)) {
+      try {
+        Promise.resolve(listener.call(this.emitter, payload)).catch((e) => {
+          afLogger.error(`Listener of "${event}" event failed: ${e}`);
+        });
+      } catch (e) {
+        afLogger.error(`Listener of "${event}" event failed: ${e}`);
+      }
+    }
+  }
+
+  /**
+   * Checks fileSystemFolder and opens metadata store, without registering routes and starting the sweeper.
+   * Called by setupLifecycle, can be used directly by scripts (e.g. fsck from CLI).
+   */
+  async openStorage(userUniqueIntanceId: string): Promise<void> {
     if (!this.options.fileSystemFolder) {
       throw new Error("fileSystemFolder is not set in the options");
     }
-    if (!this.options.signingSecret) {
-      throw new Error("signingSecret is not set in the options");
-    }
 
     // check if folder exists and try to create it if not
     // if it is not possible to create the folder, throw an error
@@ -246,18 +785,38 @@ export default class AdminForthStorageAdapterLocalFilesystem implements StorageA
       throw new Error(`fileSystemFolder folder ${this.options.fileSystemFolder} is not readable: ${e}`);
     }
 
-    this.metadataDb = new Level(path.join(this.options.fileSystemFolder, userUniqueIntanceId, 'metadata'));
+    this.internalFolder = path.resolve(this.options.fileSystemFolder, userUniqueIntanceId);
+    this.stagingFolder = path.join(this.internalFolder, 'staging');
+    await fs.mkdir(this.stagingFolder, { recursive: true });
+    await this.cleanupStagingFolder();
+
+    this.metadataStore = this.createMetadataStore();
+    await this.metadataStore.open();
+    if (this.options.metadataStore === "sidecar" || this.options.metadataStore === "sqlite") {
+      try {
+        const migrated = await migrateLevelMetadata(this.internalFolder, this.metadataStore);
+        if (migrated) {
+          afLogger.info(`Copied ${migrated} records from Level databases to ${this.options.metadataStore} metadata store`);
+        }
+      } catch (e) {
+        // e.g. Level is locked by another process which is doing the same migration
+        afLogger.warn(`Could not migrate metadata from Level databases: ${e}`);
+      }
+    }
+  }
+
+  async setupLifecycle(userUniqueIntanceId): Promise<void> {
+    if (!this.options.signingSecret && this.options.currentSigningKeyId === undefined) {
+      throw new Error("signingSecret or currentSigningKeyId is not set in the options");
+    }
 
-    this.candidatesForDeletionDb = new Level(path.join(this.options.fileSystemFolder, userUniqueIntanceId, 'candidatesForDeletion'));
+    await this.openStorage(userUniqueIntanceId);
 
-    // Adminforth can use express 4 and express 5, but this adapter is compatible only with express 4
-    // Need to handle it later
-    //@ts-ignore
-    const expressInstance: Express = global.adminforth.express.expressApp;
-    const prefix = global.adminforth.config.baseUrl || '/';
+    const host: AdminForthRoutesHost | undefined = global.adminforth;
+    // AdminForth base URL is not known when the adapter is used without AdminForth
+    const prefix = host?.config?.baseUrl || '/';
 
     const slashedPrefix = prefix.endsWith('/') ? prefix : `${prefix}/`;
-    this.adminforthSlashedPrefix = slashedPrefix;
     if (!this.options.adminServeBaseUrl) {
       this.expressBase = `${slashedPrefix}uploaded-static/${userUniqueIntanceId}`
     } else {
@@ -271,252 +830,1188 @@ export default class AdminForthStorageAdapterLocalFilesystem implements StorageA
       this.expressBase = `${slashedPrefix}${this.options.adminServeBaseUrl}`;
 
     }
-    
+    this.serving = true;
 
-    // add express PUT endpoint for uploading files
-    expressInstance.put(`${this.expressBase}/*splat`, async (req: any, res: any) => {
-      const fullUrl = `${req.protocol}://${req.get('host')}${req.originalUrl}`;
-      const ulr = new URL(fullUrl);
-      const key = ulr.pathname.replace(this.expressBase, '').replace(/^\/+/, ''); // remove base and leading slashes
+    // one middleware serves PUT, GET, HEAD and tus requests, it works with Express 4 and 5
+    const expressInstance = host?.express?.expressApp;
+    if (this.options.mountRoutes !== false && expressInstance) {
+      expressInstance.use(this.expressMiddleware());
+      this.putLastListenerToTheBeginningOfTheStack(expressInstance);
+    }
 
-      // get content type from headers
-      const contentType = req.headers["content-type"] as string;
-      if (!contentType) {
-        return res.status(400).send("Content type is required");
-      }
+    // run scheduler to delete files marked for deletion
+    this.sweepTimer = setInterval(() => {
+      this.sweepDeletionCandidates().catch((e) => {
+        incrementMetric(this.metrics.errors, { source: "sweeper" });
+        afLogger.error(`Deletion sweeper failed: ${e}`);
+      });
+    }, (this.options.sweepInterval ?? 10 * 60) * 1000);
+    // do not keep process alive just for the sweeper
+    this.sweepTimer.unref();
+
+    if (this.options.versioning) {
+      const retentionPeriod = (this.options.versioning.trashRetentionPeriod ?? DEFAULT_TRASH_RETENTION_PERIOD) * 1000;
+      this.trashSweepTimer = setInterval(() => {
+        this.purgeTrash(new Date(Date.now() - retentionPeriod)).catch((e) => {
+          afLogger.error(`Trash sweeper failed: ${e}`);
+        });
+      }, (this.options.versioning.trashSweepInterval ?? DEFAULT_TRASH_SWEEP_INTERVAL) * 1000);
+      this.trashSweepTimer.unref();
+    }
 
-      const filePath = path.resolve(this.options.fileSystemFolder, key);
+    if (this.options.encryption?.rotateOnStartup) {
+      // runs in background, objects become available with the new key one by one
+      this.rotateEncryptionKeys().then(({ rotated, failed }) => {
+        if (rotated || failed) {
+          afLogger.info(`Encryption key rotation finished: ${rotated} objects re-encrypted, ${failed} failed`);
+        }
+      }, (e) => {
+        afLogger.error(`Encryption key rotation failed: ${e}`);
+      });
+    }
+  }
 
-      // Ensure filePath is within fileSystemFolder
-      const basePath = path.resolve(this.options.fileSystemFolder);
-      if (!filePath.startsWith(basePath + path.sep)) {
-        return res.status(400).send("Invalid key, access denied");
-      }
+  /**
+   * Stops the sweeper, closes databases and releases adminServeBaseUrl, so another instance can be set up with it
+   * (e.g. on hot reload or in tests). Mounted request handler passes requests to the next handler after dispose.
+   */
+  async dispose(): Promise<void> {
+    this.serving = false;
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = undefined;
+    }
+    if (this.trashSweepTimer) {
+      clearInterval(this.trashSweepTimer);
+      this.trashSweepTimer = undefined;
+    }
+    // sweep in progress would fail on closed metadata store, its errors are reported to whoever started it
+    await this.sweepInProgress?.catch(() => {});
+    await this.metadataStore?.close();
 
-      //verify presigned URL
-      const expires = parseInt(req.query.expires as string);
-      const signature = req.query.signature as string;
-      const payload = {
-        contentType: contentType,
-      }
+    if (this.options.adminServeBaseUrl) {
+      AdminForthStorageAdapterLocalFilesystem.registredPrexises = AdminForthStorageAdapterLocalFilesystem.registredPrexises
+        .filter((prefix) => prefix !== this.options.adminServeBaseUrl);
+    }
+  }
 
-      const expectedSignature = this.sign(
-        `${this.expressBase}/${key}`, expires, payload);
-      if (signature !== expectedSignature) {
-        return res.status(403).send("Invalid signature");
-      }
-      if (Date.now() / 1000 > expires) {
-        return res.status(403).send("Signature expired");
-      }
-      // check if content type is valid
-      if (contentType !== req.headers["content-type"]) {
-        return res.status(400).send("Invalid content type");
-      }
+  async close(): Promise<void> {
+    return this.dispose();
+  }
 
-      // check if file already exists
-      try {
-        await fs.access(filePath);
-        return res.status(409).send("File already exists");
-      } catch (e) {
-        // file does not exist, continue
-      }
-      // create folder if it does not exist
-      const folderPath = path.dirname(filePath);
-      try {
-        await fs.mkdir(folderPath, { recursive: true });
-      } catch (e) {
-        return res.status(500).send(`Could not create folder ${folderPath}: ${e}`);
-      }
-      // write file to disk
-      const writeStream = createWriteStream(filePath);
-      req.pipe(writeStream);
-      writeStream.on("finish", () => {
-        // write metadata to db
-        this.metadataDb.put(key, 
-          JSON.stringify({
-            contentType: contentType,
-            createdAt: +Date.now(),
-            size: writeStream.bytesWritten,
-          })
-        ).catch((e) => {
-          afLogger.error(`Could not write metadata to db: ${e}`);
-          throw new Error(`Could not write metadata to db: ${e}`);
-        });
+  createMetadataStore(): MetadataStore {
+    const store = this.options.metadataStore ?? "level";
+    if (typeof store === "object") {
+      return store;
+    }
+    switch (store) {
+      case "level":
+        return new LevelMetadataStore(this.internalFolder);
+      case "sidecar":
+        return new SidecarMetadataStore(this.options.fileSystemFolder, [this.internalFolder], path.join(this.internalFolder, 'sidecarState'));
+      case "sqlite":
+        return new SqliteMetadataStore(path.join(this.internalFolder, 'metadata.sqlite'));
+      default:
+        throw new Error(`Unknown metadataStore ${store}`);
+    }
+  }
 
-        this.markKeyForDeletion(key);
+  /**
+   * Returns retention period in milliseconds for the key, taking retentionRules into account.
+   */
+  getRetentionPeriod(key: string): number {
+    const rule = (this.options.retentionRules ?? [])
+      .filter((rule) => key.startsWith(rule.prefix))
+      .sort((a, b) => b.prefix.length - a.prefix.length)[0];
+    return (rule?.retentionPeriod ?? this.options.retentionPeriod ?? 24 * 60 * 60) * 1000;
+  }
 
-        res.status(200).send("File uploaded");
-      });
+  /**
+   * Removes files which are marked for deletion and older than retention period.
+   * Failure on one key is logged and does not stop the sweep.
+   * @returns number of removed objects
+   */
+  async sweepDeletionCandidates(): Promise<number> {
+    if (this.sweepInProgress) {
+      return 0;
+    }
+    this.sweepInProgress = this.runDeletionSweep().finally(() => {
+      this.sweepInProgress = undefined;
     });
+    return this.sweepInProgress;
+  }
 
-    // add express GET endpoint for downloading files
-    expressInstance.get(`${this.expressBase}/*splat`, async (req: any, res: any) => {
-      const key = [].concat(req.params.splat ?? []).join('/'); // express5 named wildcard: req.params.splat is an array of path segments
-      const filePath = path.resolve(this.options.fileSystemFolder, key);
+  async runDeletionSweep(): Promise<number> {
+    await this.cleanupStagingFolder();
+    await this.metadataStore.purgeExpiredNonces?.(Date.now()).catch((e) => {
+      afLogger.error(`Could not purge expired nonces: ${e}`);
+    });
 
-      const presignedAccess = this.verifyPresignedAccess(key, req.query);
-      if (presignedAccess.ok === false) {
-        return res.status(403).send(presignedAccess.message);
+    const now = +Date.now();
+    const batchSize = this.options.sweepBatchSize ?? 1000;
+    let removed = 0;
+    for await (const [key, createdAt] of this.metadataStore.iterateCandidates()) {
+      if (removed >= batchSize) {
+        break;
       }
-
-      // Ensure filePath is within fileSystemFolder
-      const basePath = path.resolve(this.options.fileSystemFolder);
-      if (!filePath.startsWith(basePath + path.sep)) {
-        return res.status(400).send("Invalid key, access denied");
+      if (now - +createdAt <= this.getRetentionPeriod(key)) {
+        continue;
       }
-
-      // check if file exists
       try {
-        await fs.access(filePath);
+        await this.removeExpiredObject(key);
+        removed++;
+        this.metrics.sweeperDeletions++;
       } catch (e) {
-        return res.status(404).send("File not found");
+        incrementMetric(this.metrics.errors, { source: "sweeper" });
+        afLogger.error(`Could not delete file ${key}, will retry on next sweep: ${e}`);
       }
+    }
+    return removed;
+  }
 
-      // add metadata to response headers
-      const metadata = await this.metadataDb.get(key).catch((e) => {
-        throw new Error(`Could not read metadata for ${key} from db: ${e}`);
-      });
-      if (!metadata) {
-        return res.status(404).send(`Metadata for ${key} not found`);
-      }
-      const metadataParsed = JSON.parse(metadata);
-      // send file to client
-      res.sendFile(
-        filePath, 
-        {
-          headers: {
-            "Content-Type": metadataParsed.contentType,
-            "Content-Length": metadataParsed.size,
-            "Last-Modified": new Date(metadataParsed.createdAt).toUTCString(),
-            "ETag": crypto.createHash("md5").update(metadata).digest("hex"),
-          },
-        },
-        (err) => {
-          if (err) {
-            afLogger.error(`Could not send file ${filePath}: ${err}`);
+  async removeExpiredObject(key: string): Promise<void> {
+    const metadata = await this.metadataStore.getMetadata(key);
+    const filePath = path.resolve(this.options.fileSystemFolder, key);
+    if (metadata && this.options.versioning && await this.fileExists(filePath)) {
+      await this.archiveObject(key, metadata, "expired");
+    }
+    try {
+      await fs.unlink(filePath);
+    } catch (e) {
+      // file might be already removed, metadata should be purged anyway
+      if (e.code !== "ENOENT") {
+        throw e;
+      }
+    }
+    // candidate might be created for resumable upload which was abandoned
+    await this.removeResumableUploads(key);
+    await this.removeImageVariants(key);
+    await this.withQuotaQueue(async () => {
+      await this.metadataStore.delMetadata(key);
+      await this.metadataStore.delCandidate(key);
+      if (metadata) {
+        await this.changeQuotaUsage(key, -metadata.size);
+      }
+    });
+    this.emitEvent("expired", { key, metadata });
+  }
 
-            if (!res.headersSent) {
-              res.status(500).send("Could not send file");
-            }
+  /**
+   * Walks fileSystemFolder and yields regular files which can be addressed by keys,
+   * skipping adapter internal folder and files of metadata store.
+   * @param exclude - key prefixes to skip
+   */
+  async *walkObjectFiles(exclude: string[] = []): AsyncIterable<{ key: string; filePath: string; size: number; mtimeMs: number }> {
+    const walk = async function* (folder: string, prefix: string) {
+      let entries;
+      try {
+        entries = await fs.readdir(folder, { withFileTypes: true });
+      } catch (e) {
+        if (e.code === "ENOENT") {
+          return;
+        }
+        throw e;
+      }
+      for (const entry of entries) {
+        const entryPath = path.join(folder, entry.name);
+        const key = `${prefix}${entry.name}`;
+        if (entryPath === this.internalFolder || exclude.some((excluded) => key.startsWith(excluded))) {
+          continue;
+        }
+        if (entry.isDirectory()) {
+          yield* walk(entryPath, `${key}/`);
+        } else if (entry.isFile() && !this.metadataStore.isReservedKey?.(key)) {
+          const stat = await fs.stat(entryPath).catch(() => undefined);
+          // file might be removed while walking
+          if (stat) {
+            yield { key, filePath: entryPath, size: stat.size, mtimeMs: stat.mtimeMs };
           }
         }
-      );
-    });
-
-    this.putLastListenerToTheBeginningOfTheStack(expressInstance);
-
-
-
-    // add HEAD endpoint for returning file metadata
-    expressInstance.head(`${this.expressBase}/*splat`, async (req: any, res: any) => {
-      const key = [].concat(req.params.splat ?? []).join('/'); // express5 named wildcard: req.params.splat is an array of path segments
-      const filePath = path.resolve(this.options.fileSystemFolder, key);
-
-      const presignedAccess = this.verifyPresignedAccess(key, req.query);
-      if (presignedAccess.ok === false) {
-        return res.status(403).send(presignedAccess.message);
       }
+    }.bind(this);
+    yield* walk(path.resolve(this.options.fileSystemFolder), "");
+  }
 
-      // Ensure filePath is within fileSystemFolder
-      const basePath = path.resolve(this.options.fileSystemFolder);
-      if (!filePath.startsWith(basePath + path.sep)) {
-        return res.status(400).send("Invalid key, access denied");
+  /**
+   * Checks that files in fileSystemFolder are consistent with metadata store:
+   * - orphanFile: file without metadata (e.g. copied to the folder manually or metadata was lost)
+   * - missingFile: metadata without file
+   * - sizeMismatch: size in metadata differs from size on disk
+   * - stuckCandidate: deletion candidate without metadata, or one which sweeper should have removed long ago
+   * In repair mode orphan files get metadata rebuilt from disk (content type is sniffed, createdAt is taken from mtime),
+   * or are quarantined/deleted depending on options.orphans. Other issues are fixed by updating or removing records.
+   * @returns machine-readable report
+   */
+  async fsck(options: FsckOptions = {}): Promise<FsckReport> {
+    const report: FsckReport = {
+      checkedFiles: 0,
+      checkedMetadata: 0,
+      checkedCandidates: 0,
+      issues: [],
+      repaired: 0,
+      failed: 0,
+    };
+    const addIssue = async (issue: FsckIssue, repair: () => Promise<string>) => {
+      report.issues.push(issue);
+      if (!options.repair) {
+        return;
       }
-
-      // check if file exists
       try {
-        await fs.access(filePath);
+        issue.repair = await repair();
+        report.repaired++;
       } catch (e) {
-        return res.status(404).send("File not found");
+        issue.repairError = `${e}`;
+        report.failed++;
       }
+    };
 
-      // add metadata to response headers
-      const metadata = await this.metadataDb.get(key).catch((e) => {
-        throw new Error(`Could not read metadata for ${key} from db: ${e}`);
-      });
+    const fileKeys = new Set<string>();
+    for await (const { key, filePath, size, mtimeMs } of this.walkObjectFiles(options.exclude)) {
+      report.checkedFiles++;
+      fileKeys.add(key);
+      const metadata = await this.readMetadata(key);
       if (!metadata) {
-        return res.status(404).send(`Metadata for ${key} not found`);
-      }
-      const metadataParsed = JSON.parse(metadata);
-      res.setHeader("Content-Type", metadataParsed.contentType);
-      res.setHeader("Content-Length", metadataParsed.size);
-      res.setHeader("Last-Modified", new Date(metadataParsed.createdAt).toUTCString());
-      res.setHeader("ETag", crypto.createHash("md5").update(metadata).digest("hex"));
-      res.status(200).end();
-    });
-    this.putLastListenerToTheBeginningOfTheStack(expressInstance);
+        await addIssue({ type: "orphanFile", key, details: `${size} bytes` }, async () => {
+          switch (options.orphans ?? "rebuild") {
+            case "quarantine": {
+              const quarantinePath = path.join(this.internalFolder, 'quarantine', key);
+              await fs.mkdir(path.dirname(quarantinePath), { recursive: true });
+              await fs.rename(filePath, quarantinePath);
+              return `moved to ${quarantinePath}`;
+            }
+            case "delete":
+              await fs.unlink(filePath);
+              return "deleted file";
+            default: {
+              if (await isEncryptedFile(filePath)) {
+                // plaintext size and chunk size can't be restored from encrypted file
+                throw new Error("Metadata of encrypted file can't be rebuilt");
+              }
+              const contentType = await sniffFileContentType(filePath);
+              await this.metadataStore.putMetadata(key, { contentType, createdAt: Math.round(mtimeMs), size });
+              return `rebuilt metadata with content type ${contentType}`;
+            }
+          }
+        });
+        continue;
+      }
+      const encryption = await this.resolveFileEncryption(filePath, metadata);
+      if (encryption) {
+        const expectedSize = encryptedSize(metadata.size, encryption.chunkSize);
+        if (expectedSize !== size) {
+          await addIssue({ type: "sizeMismatch", key, details: `encrypted file should be ${expectedSize} bytes, disk ${size} bytes` }, async () => {
+            throw new Error("Size of encrypted object can't be repaired");
+          });
+        }
+      } else if (metadata.size !== size) {
+        await addIssue({ type: "sizeMismatch", key, details: `metadata ${metadata.size} bytes, disk ${size} bytes` }, async () => {
+          // checksums were calculated for other content, they will be recalculated on next download
+          await this.metadataStore.putMetadata(key, { ...metadata, size, sha256: undefined, md5: undefined });
+          return "updated size in metadata";
+        });
+      }
+    }
 
+    for await (const [key] of this.metadataStore.iterateMetadata()) {
+      report.checkedMetadata++;
+      if (fileKeys.has(key) || options.exclude?.some((excluded) => key.startsWith(excluded))) {
+        continue;
+      }
+      // file might be uploaded after folder was walked
+      if (await this.fileExists(path.resolve(this.options.fileSystemFolder, key))) {
+        continue;
+      }
+      await addIssue({ type: "missingFile", key }, async () => {
+        await this.metadataStore.delMetadata(key);
+        await this.metadataStore.delCandidate(key);
+        return "removed metadata";
+      });
+    }
 
-    // run scheduler every 10 minutes to delete files marked for deletion
-    setInterval(async () => {
-      const now = +Date.now();
-      const keys = await this.candidatesForDeletionDb.keys().all();
-      for (const key of keys) {
-        const createdAt = await this.candidatesForDeletionDb.get(key).catch((e) => {
-          afLogger.error(`Could not read metadata from db: ${e}`);
-          throw new Error(`Could not read metadata from db: ${e}`);
-        });
-        if (now - +createdAt > 24 * 60 * 60 * 1000) {
-          // delete file
-          try {
-            await fs.unlink(path.resolve(this.options.fileSystemFolder, key));
-          } catch (e) {
-            afLogger.error(`Could not delete file ${key}: ${e}`);
-            throw new Error(`Could not delete file ${key}: ${e}`);
-          }
-          // delete metadata
-          try {
-            await this.metadataDb.del(key);
-          } catch (e) {
-            afLogger.error(`Could not delete metadata from db: ${e}`);
-            throw new Error(`Could not delete metadata from db: ${e}`);
-          }
+    const now = Date.now();
+    // sweeper runs once per interval, so give it two runs before candidate is considered stuck
+    const sweepGrace = 2 * (this.options.sweepInterval ?? 10 * 60) * 1000;
+    for await (const [key, createdAt] of this.metadataStore.iterateCandidates()) {
+      report.checkedCandidates++;
+      if (options.exclude?.some((excluded) => key.startsWith(excluded))) {
+        continue;
+      }
+      if (!await this.readMetadata(key)) {
+        if (await this.hasResumableUploads(key)) {
+          // candidate of resumable upload session, the sweeper removes it together with the session
+          continue;
         }
+        await addIssue({ type: "stuckCandidate", key, details: "no metadata" }, async () => {
+          await this.metadataStore.delCandidate(key);
+          return "removed deletion candidate";
+        });
+      } else if (now - createdAt > this.getRetentionPeriod(key) + sweepGrace) {
+        await addIssue({ type: "stuckCandidate", key, details: `created at ${new Date(createdAt).toISOString()}` }, async () => {
+          await this.removeExpiredObject(key);
+          return "removed expired object";
+        });
       }
     }
-      , 10 * 60 * 1000); // every 10 minutes
 
+    if (report.repaired) {
+      // repairs change metadata directly, counters are calculated again on next quota check
+      await this.metadataStore.resetUsageCounters?.();
+    }
+    return report;
   }
 
-  async objectCanBeAccesedPublicly(): Promise<boolean> {
-    return this.options.mode === "public";
+  /**
+   * Total size of objects under the prefix, from usage counter of the metadata store if it supports them.
+   */
+  async getQuotaUsage(prefix: string): Promise<number> {
+    const counter = await this.metadataStore.getUsageCounter?.(prefix);
+    if (counter !== undefined) {
+      return counter;
+    }
+    // objects are counted in the queue, so uploads and deletions can't change them before counter is stored
+    return this.withQuotaQueue(async () => {
+      const initialized = await this.metadataStore.getUsageCounter?.(prefix);
+      if (initialized !== undefined) {
+        return initialized;
+      }
+      const { bytes } = await this.getUsage(prefix);
+      await this.metadataStore.initUsageCounter?.(prefix, bytes);
+      return bytes;
+    });
   }
 
-  putLastListenerToTheBeginningOfTheStack(expressInstance) {
-    // since adminforth might already registred /* endpoint we need to reorder the routes
-    // Express 5 removed app._router; the router is exposed as app.router (Express 4 keeps _router).
-    const stack = (expressInstance._router ?? expressInstance.router).stack;
-    const adpaterListnerLayer = stack.pop(); // route is last, just pop it
-    // find route with ${this.adminforthSlashedPrefix}assets/*splat
-    const wildcardIndex = stack.findIndex((layer) => {
-      return layer.route && layer.route.path === `${this.adminforthSlashedPrefix}assets/*splat`;
-    });
-    if (wildcardIndex === -1) {
-      // if not found, just push it to the end, e.g. if discover databse and this method executed before 
-      // adminforth registered the wildcard route
-      stack.push(adpaterListnerLayer);
-    } else {
-      stack.splice(wildcardIndex, 0, adpaterListnerLayer); // insert before wildcard
+  /**
+   * Returns how many bytes can still be stored under the key, Infinity if no quota applies to it.
+   * @param key - The key of the file e.g. "tenants/42/file.txt"
+   * @param movedFrom - key of the object which is moved to the key, rules which apply to both keys are skipped
+   * because the move does not change their usage
+   */
+  async getRemainingQuota(key: string, movedFrom?: string): Promise<number> {
+    const sourcePrefixes = movedFrom === undefined
+      ? new Set<string>()
+      : new Set((await resolveQuotaRules(this.options.quota, movedFrom)).map((rule) => rule.prefix));
+    let remaining = Infinity;
+    for (const rule of await resolveQuotaRules(this.options.quota, key)) {
+      if (!sourcePrefixes.has(rule.prefix)) {
+        remaining = Math.min(remaining, rule.maxBytes - await this.getQuotaUsage(rule.prefix));
+      }
     }
+    return remaining;
   }
 
   /**
-   * Checks if the URL belongs to this local filesystem storage instance.
-   * It checks if the URL starts with the base path registered in Express.
-   * * @param url - The URL to check
+   * Runs quota check together with the change of stored objects, one operation at a time if quota is enabled,
+   * so concurrent operations can't exceed the quota together. Operation of the queue can call it again, it runs immediately.
    */
-  async isInternalUrl(url: string): Promise<boolean> {
-
-    if (url.startsWith('/') && !url.startsWith('//')) {
-      return true;
+  async withQuotaQueue<T>(operation: () => Promise<T>): Promise<T> {
+    if (!this.options.quota || this.quotaQueueContext.getStore()) {
+      return operation();
     }
+    const result = this.quotaQueue.then(() => this.quotaQueueContext.run(true, operation));
+    this.quotaQueue = result.catch(() => {});
+    return result;
+  }
 
-    if (url.startsWith(this.expressBase)) {
-      return true;
+  async changeQuotaUsage(key: string, delta: number): Promise<void> {
+    for (const rule of await resolveQuotaRules(this.options.quota, key)) {
+      await this.metadataStore.addToUsageCounter?.(rule.prefix, delta);
     }
+  }
 
+  /**
+   * Handles request if its URL is under the base URL of the adapter.
+   * @returns false if URL does not belong to the adapter, so request should be passed to the next handler
+   */
+  async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<boolean> {
+    if (!this.serving) {
+      return false;
+    }
+    // Express rewrites req.url of middleware mounted at a path, originalUrl keeps the full URL
+    const url = (req as IncomingMessage & { originalUrl?: string }).originalUrl ?? req.url ?? "";
+    const queryIndex = url.indexOf("?");
+    const pathname = queryIndex === -1 ? url : url.slice(0, queryIndex);
+    if (!pathname.startsWith(`${this.expressBase}/`)) {
+      return false;
+    }
+    const rawKey = pathname.slice(this.expressBase.length + 1);
+    let key: string | undefined;
     try {
-      const normalizedUrl = url.startsWith('//') ? `https:${url}` : url;
+      key = rawKey.split("/").map(decodeURIComponent).join("/");
+    } catch (e) {
+      key = undefined;
+    }
+    const query = parseQuery(queryIndex === -1 ? "" : url.slice(queryIndex + 1));
+
+    try {
+      const entry = this.startAccessLog(req, res, key ?? rawKey, query);
+      const retryAfter = this.takeRateLimit(entry);
+      if (retryAfter) {
+        res.setHeader("Retry-After", retryAfter.toString());
+        sendText(res, 429, "Too many requests");
+        return true;
+      }
+      if (key === undefined) {
+        sendText(res, 400, "Invalid key, access denied");
+        return true;
+      }
+
+      switch (req.method) {
+        case "GET":
+          await this.handleDownload(req, res, key, query);
+          break;
+        case "HEAD":
+          // HEAD to session URL of resumable upload returns its offset
+          if (query.uploadId !== undefined) {
+            await this.handleResumableHead(req, res, key, query);
+          } else {
+            await this.handleDownload(req, res, key, query);
+          }
+          break;
+        case "PUT":
+          await this.handleUpload(req, res, key, query);
+          break;
+        // tus endpoints for resumable uploads: POST creates session, PATCH appends chunk, DELETE terminates session
+        case "POST":
+          await this.handleResumableCreate(req, res, key, query);
+          break;
+        case "PATCH":
+          await this.handleResumablePatch(req, res, key, query);
+          break;
+        case "DELETE":
+          await this.handleResumableDelete(req, res, key, query);
+          break;
+        case "OPTIONS":
+          this.handleResumableOptions(req, res, key, query);
+          break;
+        default:
+          res.setHeader("Allow", ALLOWED_METHODS);
+          sendText(res, 405, "Method not allowed");
+      }
+    } catch (e) {
+      afLogger.error(`Could not handle ${req.method} ${key ?? rawKey}: ${e}`);
+      if (!res.headersSent) {
+        sendText(res, 500, "Internal server error");
+      } else {
+        res.destroy();
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Creates access log entry of the request, it is written and counted in metrics when response is finished.
+   */
+  startAccessLog(req: IncomingMessage, res: ServerResponse, key: string, query: RequestQuery): AccessLogEntry {
+    const startedAt = Date.now();
+    const signature = getQueryValue(query, "signature");
+    const expires = getQueryValue(query, "expires");
+    const entry: AccessLogEntry = {
+      time: new Date(startedAt).toISOString(),
+      method: req.method,
+      key,
+      status: 0,
+      bytesIn: 0,
+      bytesOut: 0,
+      duration: 0,
+      ip: getClientIp(req, this.options.rateLimit?.trustProxy),
+      // signature itself is not logged, it would give access to the file to everyone who can read logs
+      urlId: signature && crypto.createHash("sha256").update(signature).digest("hex").slice(0, 16),
+      kid: getQueryValue(query, "kid"),
+      expires: expires === undefined ? undefined : parseInt(expires, 10),
+    };
+    this.requestLogs.set(req, entry);
+    res.once("close", () => {
+      entry.status = res.headersSent ? res.statusCode : 0;
+      entry.duration = Date.now() - startedAt;
+      this.writeAccessLog(entry);
+    });
+    return entry;
+  }
+
+  writeAccessLog(entry: AccessLogEntry): void {
+    incrementMetric(this.metrics.requests, { method: entry.method, status: entry.status });
+    if (entry.status >= 500) {
+      incrementMetric(this.metrics.errors, { source: "request" });
+    }
+    const accessLog = this.options.accessLog;
+    if (typeof accessLog === "function") {
+      try {
+        accessLog(entry);
+      } catch (e) {
+        afLogger.error(`Access log failed: ${e}`);
+      }
+    } else if (accessLog) {
+      afLogger.info(`Storage access ${JSON.stringify(entry)}`);
+    }
+  }
+
+  /**
+   * @returns 0 if request is allowed, otherwise seconds until the client can retry
+   */
+  takeRateLimit(entry: AccessLogEntry): number {
+    const byIp = this.rateLimiters.ip?.take(entry.ip) ?? 0;
+    if (byIp) {
+      incrementMetric(this.metrics.rateLimited, { limit: "ip" });
+      return byIp;
+    }
+    const byUrl = entry.urlId ? this.rateLimiters.url?.take(entry.urlId) ?? 0 : 0;
+    if (byUrl) {
+      incrementMetric(this.metrics.rateLimited, { limit: "url" });
+    }
+    return byUrl;
+  }
+
+  /**
+   * Creates pass-through stream which counts transferred content in access log and metrics.
+   * Downloads are also throttled by bandwidth limits of the client IP and the presigned URL.
+   */
+  createRequestMeter(req: IncomingMessage, direction: "in" | "out"): Transform {
+    const entry = this.requestLogs.get(req);
+    const reservations: ((bytes: number) => number)[] = [];
+    const { ipBandwidth, urlBandwidth } = this.rateLimiters;
+    if (direction === "out" && entry) {
+      if (ipBandwidth) {
+        reservations.push((bytes) => ipBandwidth.reserve(entry.ip, bytes));
+      }
+      if (urlBandwidth && entry.urlId) {
+        reservations.push((bytes) => urlBandwidth.reserve(entry.urlId, bytes));
+      }
+    }
+    return createThrottle(reservations, (bytes) => {
+      if (direction === "in") {
+        this.metrics.bytesIn += bytes;
+        if (entry) {
+          entry.bytesIn += bytes;
+        }
+      } else {
+        this.metrics.bytesOut += bytes;
+        if (entry) {
+          entry.bytesOut += bytes;
+        }
+      }
+    });
+  }
+
+  /**
+   * Returns metrics in Prometheus text format (PROMETHEUS_CONTENT_TYPE), e.g. to serve them on /metrics of the app.
+   * Counters are kept in memory since the adapter was created, every process has its own.
+   */
+  getMetrics(): string {
+    return formatPrometheusMetrics(this.metrics);
+  }
+
+  /**
+   * Returns Node.js request handler, e.g. for http.createServer. Requests outside of the base URL get 404.
+   * setupLifecycle should be called before the handler can serve files.
+   */
+  getRequestHandler(): (req: IncomingMessage, res: ServerResponse) => void {
+    return (req, res) => {
+      this.handleRequest(req, res).then((handled) => {
+        if (!handled) {
+          sendText(res, 404, "Not found");
+        }
+      }).catch((e) => {
+        afLogger.error(`Could not handle ${req.method} ${req.url}: ${e}`);
+        if (!res.headersSent) {
+          sendText(res, 500, "Internal server error");
+        } else {
+          res.destroy();
+        }
+      });
+    };
+  }
+
+  /**
+   * Returns Express 4 and 5 middleware which passes requests outside of the base URL to the next handler.
+   * Mount it without path (app.use(adapter.expressMiddleware())) before routes which could match the base URL.
+   */
+  expressMiddleware(): RequestHandler {
+    return (req, res, next) => {
+      this.handleRequest(req, res).then((handled) => {
+        if (!handled) {
+          next();
+        }
+      }).catch(next);
+    };
+  }
+
+  /**
+   * Handles PUT request to the presigned upload URL.
+   */
+  async handleUpload(req: IncomingMessage, res: ServerResponse, key: string, query: RequestQuery): Promise<void> {
+    // get content type from headers
+    const contentType = req.headers["content-type"] as string;
+    if (!contentType) {
+      return sendText(res, 400, "Content type is required");
+    }
+
+    let filePath: string;
+    try {
+      filePath = this.resolveKeyPath(key);
+    } catch (e) {
+      return sendText(res, 400, "Invalid key, access denied");
+    }
+
+    //verify presigned URL
+    // content type and upload policy are signed, so take them from query and compare with request
+    const signedContentType = typeof query.contentType === "string" ? query.contentType : "";
+    const payload = {
+      contentType: signedContentType,
+      ...uploadParamsFromQuery(query),
+      ...uploadMetadataParamsFromQuery(query),
+    }
+    const access = await this.verifySignedUrl(key, query, payload);
+    if (access.ok === false) {
+      return sendText(res, 403, access.message);
+    }
+    const policy = uploadPolicyFromParams(payload);
+    let uploadMetadata: UploadMetadata;
+    try {
+      uploadMetadata = uploadMetadataFromParams(payload);
+    } catch (e) {
+      return sendText(res, 400, "Invalid metadata");
+    }
+    // check if content type is valid
+    if (
+      (signedContentType && contentType !== signedContentType)
+      || (policy.allowedContentTypes && !contentTypeMatches(contentType, policy.allowedContentTypes))
+    ) {
+      return sendText(res, 400, "Invalid content type");
+    }
+    if (!this.isContentTypeAllowed(contentType)) {
+      return sendText(res, 415, "Content type is not allowed");
+    }
+    try {
+      assertDeclaredLength(policy, req.headers["content-length"]);
+    } catch (e) {
+      res.setHeader("Connection", "close");
+      return sendText(res, e.status, e.message);
+    }
+
+    // check if file already exists
+    if (await this.fileExists(filePath)) {
+      return sendText(res, 409, "File already exists");
+    }
+    // reject early if body does not fit into the quota, final check is done before the file is published
+    let remainingQuota: number;
+    try {
+      remainingQuota = await this.getRemainingQuota(key);
+    } catch (e) {
+      afLogger.error(`Could not check quota for ${key}: ${e}`);
+      return sendText(res, 500, "Could not check storage quota");
+    }
+    const declaredLength = parseInt(req.headers["content-length"], 10);
+    if (remainingQuota <= 0 || declaredLength > remainingQuota) {
+      res.setHeader("Connection", "close");
+      return sendText(res, 507, "Storage quota exceeded");
+    }
+    // single-use URL is used up only by upload which passed all checks
+    const nonceCheck = await this.consumeUrlNonce(query);
+    if (nonceCheck.ok === false) {
+      return sendText(res, 403, nonceCheck.message);
+    }
+    // write file to disk
+    let writeStream: Writable;
+    try {
+      writeStream = await this.createWriteStream(key, contentType, { sha256: policy.sha256, md5: policy.md5 }, uploadMetadata);
+    } catch (e) {
+      if (e instanceof UploadPolicyError) {
+        return sendText(res, e.status, e.message);
+      }
+      if (e.code === "EEXIST") {
+        return sendText(res, 409, "File already exists");
+      }
+      afLogger.error(`Could not create file ${key}: ${e}`);
+      return sendText(res, 500, "Could not create file");
+    }
+    // limiter fails as soon as body exceeds the policy, then writeStream removes the partial file
+    const limiter = createUploadPolicyLimiter(policy);
+    req.pipe(limiter);
+    req.on("close", () => {
+      if (!req.complete) {
+        limiter.destroy(new Error("Request aborted"));
+      }
+    });
+    try {
+      await pipeline(limiter, this.createRequestMeter(req, "in"), createQuotaLimiter(remainingQuota), writeStream);
+    } catch (e) {
+      req.unpipe(limiter);
+      if (e instanceof UploadPolicyError) {
+        // do not read rest of the body, close connection after response
+        res.setHeader("Connection", "close");
+        return sendText(res, e.status, e.message);
+      }
+      if (e.code === "EEXIST") {
+        // concurrent upload to the same key finished first
+        return sendText(res, 409, "File already exists");
+      }
+      afLogger.error(`Could not upload file ${key}: ${e}`);
+      if (!res.headersSent) {
+        sendText(res, 500, "Could not upload file");
+      }
+      return;
+    }
+    sendText(res, 200, "File uploaded");
+  }
+
+  /**
+   * Handles GET and HEAD requests to the file.
+   * Supports conditional requests (If-None-Match, If-Modified-Since, If-Match, If-Unmodified-Since)
+   * and byte ranges (single range, multiple ranges as multipart/byteranges, If-Range).
+   */
+  async handleDownload(req: IncomingMessage, res: ServerResponse, key: string, query: RequestQuery): Promise<void> {
+    // single-use URL is used up only when file content is sent, so errors and HEAD requests do not burn it
+    const presignedAccess = await this.verifyPresignedAccessAsync(key, query, false);
+    if (presignedAccess.ok === false) {
+      return sendText(res, 403, presignedAccess.message);
+    }
+
+    let filePath: string;
+    try {
+      filePath = this.resolveKeyPath(key);
+    } catch (e) {
+      return sendText(res, 400, "Invalid key, access denied");
+    }
+
+    // check if file exists
+    if (!await this.fileExists(filePath)) {
+      return sendText(res, 404, "File not found");
+    }
+
+    let metadata: ObjectMetadata;
+    try {
+      metadata = await this.readMetadata(key);
+      if (!metadata) {
+        return sendText(res, 404, `Metadata for ${key} not found`);
+      }
+    } catch (e) {
+      afLogger.error(`Could not read metadata for ${key}: ${e}`);
+      return sendText(res, 500, "Could not read metadata");
+    }
+
+    let readContent = (range?: { start: number; end: number }) => this.createObjectReadStream(key, metadata, range);
+    // signed variant parameters make response a resized copy of the image, it is generated on first request
+    const variant = imageVariantFromParams(imageVariantParamsFromQuery(query));
+    if (variant) {
+      if (!isImageVariantSource(metadata.contentType)) {
+        return sendText(res, 400, "Variants can be generated only for images");
+      }
+      try {
+        const cached = await this.getImageVariant(key, metadata, variant);
+        metadata = cached.metadata;
+        readContent = (range) => this.createFileReadStream(cached.filePath, cached.metadata, range);
+      } catch (e) {
+        afLogger.error(`Could not generate variant of ${key}: ${e}`);
+        return sendText(res, 500, "Could not generate image variant");
+      }
+    }
+
+    const lastModified = metadata.createdAt;
+    // objects stored before checksums were introduced get them from verifyObjects, until then ETag is weak
+    const etag = metadata.sha256
+      ? `"${metadata.sha256}"`
+      : `W/"${metadata.createdAt.toString(16)}-${metadata.size.toString(16)}"`;
+    const size = metadata.size;
+    const headOnly = req.method === "HEAD";
+    const precondition = evaluatePreconditions(req.headers, etag, lastModified);
+    const ranges = ifRangeMatches(req.headers, etag, lastModified)
+      ? parseRangeHeader(req.headers.range, size)
+      : undefined;
+    if (!headOnly && precondition === 200 && ranges !== "unsatisfiable") {
+      const nonceCheck = await this.consumeUrlNonce(query);
+      if (nonceCheck.ok === false) {
+        return sendText(res, 403, nonceCheck.message);
+      }
+    }
+
+    // overrides are taken into account only when they are signed
+    const overrides = this.options.mode === "public" ? {} : responseOverridesFromParams(responseParamsFromQuery(query));
+    const contentType = overrides.responseContentType ?? metadata.contentType;
+    const filename = overrides.responseFilename ?? metadata.originalFilename;
+    const attachmentTypes = this.options.contentTypes?.attachment ?? DEFAULT_ATTACHMENT_CONTENT_TYPES;
+    // types which can run scripts are never rendered inline, even if URL asks for it
+    const disposition = contentTypeMatches(contentType, attachmentTypes)
+      ? "attachment"
+      : overrides.responseContentDisposition ?? "inline";
+    if (disposition === "attachment" || filename) {
+      res.setHeader("Content-Disposition", formatContentDisposition(disposition, filename));
+    }
+    res.setHeader("X-Content-Type-Options", "nosniff");
+    const contentSecurityPolicy = this.options.contentSecurityPolicy ?? DEFAULT_CONTENT_SECURITY_POLICY;
+    if (contentSecurityPolicy) {
+      res.setHeader("Content-Security-Policy", contentSecurityPolicy);
+    }
+
+    res.setHeader("Accept-Ranges", "bytes");
+    res.setHeader("ETag", etag);
+    if (metadata.sha256) {
+      const sha256Base64 = Buffer.from(metadata.sha256, "hex").toString("base64");
+      // digest of the whole file, also for partial responses
+      res.setHeader("Repr-Digest", `sha-256=:${sha256Base64}:`);
+      res.setHeader("Digest", [
+        `SHA-256=${sha256Base64}`,
+        ...(metadata.md5 ? [`MD5=${Buffer.from(metadata.md5, "hex").toString("base64")}`] : []),
+      ].join(","));
+    }
+    res.setHeader("Last-Modified", new Date(lastModified).toUTCString());
+    res.setHeader("Cache-Control", overrides.responseCacheControl ?? this.getCacheControl());
+    for (const [name, value] of Object.entries(userMetadataHeaders(metadata.userMetadata))) {
+      res.setHeader(name, value);
+    }
+
+    if (precondition !== 200) {
+      return sendText(res, precondition);
+    }
+    if (ranges === "unsatisfiable") {
+      res.setHeader("Content-Range", `bytes */${size}`);
+      return sendText(res, 416);
+    }
+
+    let body: Readable | undefined;
+    if (!ranges) {
+      res.statusCode = 200;
+      res.setHeader("Content-Type", contentType);
+      res.setHeader("Content-Length", size);
+      body = headOnly ? undefined : readContent();
+    } else if (ranges.length === 1) {
+      const [{ start, end }] = ranges;
+      res.statusCode = 206;
+      res.setHeader("Content-Type", contentType);
+      res.setHeader("Content-Range", `bytes ${start}-${end}/${size}`);
+      res.setHeader("Content-Length", end - start + 1);
+      body = headOnly ? undefined : readContent({ start, end });
+    } else {
+      const boundary = crypto.randomBytes(16).toString("hex");
+      const partHeaders = ranges.map(({ start, end }) => Buffer.from(
+        `\r\n--${boundary}\r\nContent-Type: ${contentType}\r\nContent-Range: bytes ${start}-${end}/${size}\r\n\r\n`
+      ));
+      const closing = Buffer.from(`\r\n--${boundary}--\r\n`);
+      const contentLength = ranges.reduce((acc, { start, end }, i) => acc + partHeaders[i].length + end - start + 1, closing.length);
+      res.statusCode = 206;
+      res.setHeader("Content-Type", `multipart/byteranges; boundary=${boundary}`);
+      res.setHeader("Content-Length", contentLength);
+      if (!headOnly) {
+        const readRange = readContent;
+        body = Readable.from((async function* () {
+          for (let i = 0; i < ranges.length; i++) {
+            yield partHeaders[i];
+            yield* readRange(ranges[i]);
+          }
+          yield closing;
+        })());
+      }
+    }
+
+    if (!body) {
+      res.end();
+      return;
+    }
+    try {
+      await pipeline(body, this.createRequestMeter(req, "out"), res);
+    } catch (e) {
+      afLogger.error(`Could not send file ${filePath}: ${e}`);
+    }
+  }
+
+  getCacheControl(): string {
+    if (this.options.mode === "public") {
+      return this.options.cacheControl?.public ?? "public, max-age=31536000, immutable";
+    }
+    return this.options.cacheControl?.private ?? "private, no-store";
+  }
+
+  /**
+   * Returns stream of object content (decrypted if object is encrypted).
+   * @param range - optional byte range, both ends inclusive
+   */
+  createObjectReadStream(key: string, metadata: ObjectMetadata, range?: { start: number; end: number }): Readable {
+    return this.createFileReadStream(this.resolveKeyPath(key), metadata, range);
+  }
+
+  /**
+   * Same as createObjectReadStream for file which is not under its key, e.g. version in the trash.
+   */
+  createFileReadStream(filePath: string, metadata: ObjectMetadata, range?: { start: number; end: number }): Readable {
+    const open = (encryption: ObjectMetadata["encryption"]) => encryption
+      ? createDecryptStream(filePath, this.getEncryptionKey(encryption.keyId), encryption.chunkSize, metadata.size, range)
+      : createReadStream(filePath, range);
+    if (!metadata.reencryption) {
+      return open(metadata.encryption);
+    }
+    const resolving = this.resolveFileEncryption(filePath, metadata);
+    return Readable.from((async function* () {
+      yield* open(await resolving);
+    })());
+  }
+
+  /**
+   * Returns encryption which the file actually uses. It differs from metadata.encryption only if re-encryption
+   * was interrupted after the file was replaced, then the file is checked against metadata.reencryption.
+   */
+  async resolveFileEncryption(filePath: string, metadata: ObjectMetadata): Promise<ObjectMetadata["encryption"]> {
+    const { encryption, reencryption } = metadata;
+    if (!reencryption) {
+      return encryption;
+    }
+    if (!await isEncryptedFile(filePath)) {
+      return undefined;
+    }
+    if (!encryption) {
+      return reencryption;
+    }
+    let newKey: Buffer;
+    try {
+      newKey = this.getEncryptionKey(reencryption.keyId);
+    } catch (e) {
+      // key of interrupted rotation was removed, so the file can only use the old one
+      return encryption;
+    }
+    return await canDecryptFile(filePath, newKey, reencryption.chunkSize, metadata.size) ? reencryption : encryption;
+  }
+
+  getEncryptionKey(keyId: string): Buffer {
+    const key = this.options.encryption?.keys[keyId];
+    if (!key) {
+      throw new Error(`Encryption key ${keyId} is not configured`);
+    }
+    return decodeEncryptionKey(keyId, key);
+  }
+
+  /**
+   * Calculates checksums of the object content.
+   */
+  async hashObject(key: string, metadata: ObjectMetadata, withMd5: boolean): Promise<{ sha256: string; md5?: string }> {
+    const sha256 = crypto.createHash("sha256");
+    const md5 = withMd5 ? crypto.createHash("md5") : undefined;
+    for await (const chunk of this.createObjectReadStream(key, metadata)) {
+      sha256.update(chunk);
+      md5?.update(chunk);
+    }
+    return { sha256: sha256.digest("hex"), md5: md5?.digest("hex") };
+  }
+
+  /**
+   * Objects uploaded before checksums were stored in metadata get them calculated and saved by verifyObject.
+   * Download requests only read metadata, so they serve such objects with weak ETag and without Digest.
+   */
+  async ensureChecksums(key: string, metadata: ObjectMetadata): Promise<void> {
+    if (metadata.sha256) {
+      return;
+    }
+    const checksums = await this.hashObject(key, metadata, this.options.storeMd5);
+    metadata.sha256 = checksums.sha256;
+    if (checksums.md5) {
+      metadata.md5 = checksums.md5;
+    }
+    const current = await this.readMetadata(key);
+    // object might be replaced or deleted while it was hashed
+    if (current?.createdAt === metadata.createdAt && !current.sha256) {
+      await this.metadataStore.putMetadata(key, { ...current, sha256: metadata.sha256, md5: current.md5 ?? metadata.md5 });
+    }
+  }
+
+  /**
+   * Recalculates checksum of the file and compares it with the one stored on upload, e.g. to detect bit rot.
+   * Object without stored checksum gets it saved and is reported with status "noChecksum".
+   * @param key - The key of the file e.g. "uploads/file.txt"
+   */
+  async verifyObject(key: string): Promise<VerifyResult> {
+    const filePath = this.resolveKeyPath(key);
+    const metadata = await this.readMetadata(key);
+    if (!metadata || !await this.fileExists(filePath)) {
+      return { key, status: "missing" };
+    }
+    if (!metadata.sha256) {
+      await this.ensureChecksums(key, metadata);
+      return { key, status: "noChecksum", actualSha256: metadata.sha256 };
+    }
+    let sha256: string;
+    try {
+      ({ sha256 } = await this.hashObject(key, metadata, false));
+    } catch (e) {
+      // authentication of encrypted chunk failed
+      return { key, status: "mismatch", expectedSha256: metadata.sha256 };
+    }
+    return {
+      key,
+      status: sha256 === metadata.sha256 ? "ok" : "mismatch",
+      expectedSha256: metadata.sha256,
+      actualSha256: sha256,
+    };
+  }
+
+  /**
+   * Verifies all objects (or objects with keys starting with prefix) one by one.
+   * @param prefix - key prefix e.g. "uploads/"
+   */
+  async verifyObjects(prefix = ""): Promise<VerifyReport> {
+    const report: VerifyReport = { checked: 0, ok: 0, failed: [] };
+    for await (const [key] of this.metadataStore.iterateMetadata(prefixRange(prefix))) {
+      const result = await this.verifyObject(key).catch((e): VerifyResult => {
+        afLogger.error(`Could not verify ${key}: ${e}`);
+        return { key, status: "missing" };
+      });
+      report.checked++;
+      if (result.status === "ok") {
+        report.ok++;
+      } else {
+        report.failed.push(result);
+      }
+    }
+    return report;
+  }
+
+  /**
+   * Key id and chunk size which are used for new files, undefined if encryption is disabled.
+   */
+  getCurrentEncryption(): ObjectMetadata["encryption"] {
+    if (!this.options.encryption) {
+      return undefined;
+    }
+    return {
+      keyId: this.options.encryption.currentKeyId,
+      chunkSize: this.options.encryption.chunkSize ?? DEFAULT_CHUNK_SIZE,
+    };
+  }
+
+  /**
+   * Re-encrypts objects which were encrypted with other keys (or stored before encryption was enabled) with the current key.
+   * Old keys should stay in encryption.keys until rotation is finished.
+   * Objects are processed one by one, failed ones are logged and skipped, so rotation can be safely restarted.
+   * @param prefix - key prefix e.g. "uploads/"
+   * @returns number of re-encrypted and failed objects
+   */
+  async rotateEncryptionKeys(prefix = ""): Promise<{ rotated: number; failed: number }> {
+    const encryption = this.getCurrentEncryption();
+    if (!encryption) {
+      throw new Error("Encryption is not enabled");
+    }
+    const result = { rotated: 0, failed: 0 };
+    for await (const [key, metadata] of this.metadataStore.iterateMetadata(prefixRange(prefix))) {
+      if (metadata.encryption?.keyId === encryption.keyId && !metadata.reencryption) {
+        continue;
+      }
+      try {
+        if (await this.reencryptObject(key, metadata)) {
+          result.rotated++;
+        }
+      } catch (e) {
+        afLogger.error(`Could not re-encrypt ${key}: ${e}`);
+        result.failed++;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Writes object encrypted with the current key to staging folder and renames it over the original file.
+   * New encryption is recorded in metadata as pending before the rename, so the object stays readable
+   * if the process stops between the rename and the final metadata update.
+   * @returns false if object was deleted or replaced meanwhile
+   */
+  async reencryptObject(key: string, metadata: ObjectMetadata): Promise<boolean> {
+    const filePath = this.resolveKeyPath(key);
+    if (!await this.fileExists(filePath)) {
+      return false;
+    }
+    const encryption = this.getCurrentEncryption();
+    const tempPath = path.join(this.stagingFolder, `${crypto.randomUUID()}.tmp`);
+    const sha256 = crypto.createHash("sha256");
+    let actualSha256: string;
+    try {
+      await pipeline(
+        this.createObjectReadStream(key, metadata),
+        new Transform({
+          transform(chunk, _encoding, callback) {
+            sha256.update(chunk);
+            callback(null, chunk);
+          },
+        }),
+        createEncryptStream(this.getEncryptionKey(encryption.keyId), encryption.chunkSize),
+        createWriteStream(tempPath, { flags: "wx" }),
+      );
+      // do not replace the file with content which does not match the one stored on upload
+      actualSha256 = sha256.digest("hex");
+      if (metadata.sha256 && actualSha256 !== metadata.sha256) {
+        throw new Error(`Checksum mismatch, expected ${metadata.sha256}, got ${actualSha256}`);
+      }
+      const handle = await fs.open(tempPath, "r+");
+      try {
+        await handle.sync();
+      } finally {
+        await handle.close();
+      }
+      const current = await this.readMetadata(key);
+      if (!current || current.createdAt !== metadata.createdAt || current.sha256 !== metadata.sha256) {
+        // deleted or replaced while re-encrypting
+        await fs.unlink(tempPath).catch(() => {});
+        return false;
+      }
+      await this.metadataStore.putMetadata(key, { ...current, reencryption: encryption });
+      await fs.rename(tempPath, filePath);
+    } catch (e) {
+      await fs.unlink(tempPath).catch(() => {});
+      throw e;
+    }
+    const current = await this.readMetadata(key);
+    if (!current) {
+      // deleted or moved away right before the rename, file should not come back under the key
+      await fs.unlink(filePath).catch(() => {});
+      return false;
+    }
+    if (current.createdAt !== metadata.createdAt) {
+      afLogger.error(`Object ${key} was replaced while it was re-encrypted, its content might be lost`);
+      return false;
+    }
+    const { reencryption, ...properties } = current;
+    await this.metadataStore.putMetadata(key, { ...properties, sha256: current.sha256 ?? actualSha256, encryption });
+    return true;
+  }
+
+  async objectCanBeAccesedPublicly(): Promise<boolean> {
+    return this.options.mode === "public";
+  }
+
+  /**
+   * Moves just appended middleware before routes which were registered earlier, otherwise AdminForth
+   * SPA fallback route answers requests to files with its HTML. Express has no public API to insert middleware,
+   * so router stack is edited: app._router in Express 4, app.router in Express 5.
+   */
+  putLastListenerToTheBeginningOfTheStack(expressInstance: Express): void {
+    const app = expressInstance as Express & { _router?: { stack?: unknown }; router?: { stack?: unknown } };
+    const stack = (app._router ?? app.router)?.stack;
+    if (!Array.isArray(stack)) {
+      afLogger.warn(`Could not move local storage routes before routes of the app, files under ${this.expressBase} might be `
+        + `answered by them. Set mountRoutes: false and mount expressMiddleware() before adminforth.express.serve(app)`);
+      return;
+    }
+    const adapterLayer = stack.pop();
+    // middlewares mounted before (e.g. body parsers, CORS) stay in front, only routes can answer instead of the adapter
+    const firstRouteIndex = stack.findIndex((layer) => layer.route);
+    if (firstRouteIndex === -1) {
+      stack.push(adapterLayer);
+    } else {
+      stack.splice(firstRouteIndex, 0, adapterLayer);
+    }
+  }
+
+  /**
+   * Checks if the URL belongs to this local filesystem storage instance.
+   * It checks if the URL starts with the base path registered in Express.
+   * * @param url - The URL to check
+   */
+  async isInternalUrl(url: string): Promise<boolean> {
+
+    if (url.startsWith('/') && !url.startsWith('//')) {
+      return true;
+    }
+
+    if (url.startsWith(this.expressBase)) {
+      return true;
+    }
+
+    try {
+      const normalizedUrl = url.startsWith('//') ? `https:${url}` : url;
       const parsedUrl = new URL(normalizedUrl, 'http://localhost'); 
       
       return parsedUrl.pathname.startsWith(this.expressBase);
@@ -526,57 +2021,1664 @@ export default class AdminForthStorageAdapterLocalFilesystem implements StorageA
   }
 
   /**
-   * This method should return the key as a data URL (base64 encoded string).
-   * @param key - The key of the file to be converted to a data URL
-   * @returns A promise that resolves to a string containing the data URL
+   * This method should return the key as a data URL (base64 encoded string).
+   * @param key - The key of the file to be converted to a data URL
+   * @returns A promise that resolves to a string containing the data URL
+   */
+   async getKeyAsDataURL(key: string): Promise<string> {
+    const parsed = this.parseKeyWithQuery(key);
+    key = parsed.key;
+
+    const presignedAccess = await this.verifyPresignedAccessAsync(key, parsed.query, false);
+    if (presignedAccess.ok === false) {
+      throw new Error(presignedAccess.message);
+    }
+
+    const filePath = this.resolveKeyPath(key);
+
+    // check if file exists
+    try {
+      await fs.access(filePath);
+    } catch (e) {
+      throw new Error("File not found");
+    }
+
+    const metadata = await this.readMetadata(key);
+    if (!metadata) {
+      throw new Error(`Metadata for key ${key} not found`);
+    }
+    // read file and convert to base64
+    const chunks: Buffer[] = [];
+    for await (const chunk of this.createObjectReadStream(key, metadata)) {
+      chunks.push(chunk);
+    }
+    // single-use URL is used up only when content was read
+    const nonceCheck = await this.consumeUrlNonce(parsed.query);
+    if (nonceCheck.ok === false) {
+      throw new Error(nonceCheck.message);
+    }
+    const base64 = Buffer.concat(chunks).toString("base64");
+    const dataUrl = `data:${metadata.contentType};base64,${base64}`;
+    return dataUrl;
+  }
+
+  /**
+   * Resolves the key to an absolute path inside fileSystemFolder.
+   * Throws if the key points outside of the folder (e.g. "../secret") or into the adapter internal folder.
+   * @param key - The key of the file e.g. "uploads/file.txt"
+   */
+  resolveKeyPath(key: string): string {
+    const filePath = path.resolve(this.options.fileSystemFolder, key);
+
+    // Ensure filePath is within fileSystemFolder
+    const basePath = path.resolve(this.options.fileSystemFolder);
+    if (!filePath.startsWith(basePath + path.sep)) {
+      throw new Error("Invalid key, access denied");
+    }
+    if (filePath === this.internalFolder || filePath.startsWith(this.internalFolder + path.sep)) {
+      throw new Error("Invalid key, access denied");
+    }
+    if (this.metadataStore?.isReservedKey?.(key)) {
+      throw new Error("Invalid key, access denied");
+    }
+    return filePath;
+  }
+
+  /**
+   * Moves fully written temp file to its final path.
+   * Hard link fails if destination already exists, so two concurrent uploads to the same key can't overwrite each other,
+   * and file appears under the key only when it is complete.
+   * Key is marked for deletion before file appears, so if process crashes before metadata is committed,
+   * the sweeper removes file without metadata instead of leaving the key blocked.
+   */
+  async publishStagedFile(tempPath: string, filePath: string, key: string): Promise<void> {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    const ownCandidate = await this.metadataStore.getCandidate(key) === undefined;
+    if (ownCandidate) {
+      await this.metadataStore.putCandidate(key, Date.now());
+    }
+    try {
+      try {
+        await fs.link(tempPath, filePath);
+      } catch (e) {
+        if (!["EPERM", "ENOTSUP", "EOPNOTSUPP", "ENOSYS"].includes(e.code)) {
+          throw e;
+        }
+        // filesystem does not support hard links, copy is still exclusive but not atomic
+        await fs.copyFile(tempPath, filePath, fs.constants.COPYFILE_EXCL);
+      }
+    } catch (e) {
+      // e.g. another upload published file under the key first, its candidate must stay
+      if (ownCandidate) {
+        await this.metadataStore.delCandidate(key).catch(() => {});
+      }
+      throw e;
+    }
+    await fs.unlink(tempPath);
+
+    // persist directory entry, not supported on some platforms
+    try {
+      const dirHandle = await fs.open(path.dirname(filePath), "r");
+      await dirHandle.sync().finally(() => dirHandle.close());
+    } catch (e) {
+      // ignore
+    }
+  }
+
+  /**
+   * Removes temp files of uploads which were interrupted (e.g. connection dropped or process crashed).
+   */
+  async cleanupStagingFolder(): Promise<void> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.stagingFolder);
+    } catch (e) {
+      afLogger.error(`Could not read staging folder ${this.stagingFolder}: ${e}`);
+      return;
+    }
+    const now = Date.now();
+    for (const entry of entries) {
+      const tempPath = path.join(this.stagingFolder, entry);
+      try {
+        const stat = await fs.stat(tempPath);
+        if (now - stat.mtimeMs > STALE_STAGING_FILE_AGE) {
+          await fs.unlink(tempPath);
+        }
+      } catch (e) {
+        if (e.code !== "ENOENT") {
+          afLogger.error(`Could not remove stale temp file ${tempPath}: ${e}`);
+        }
+      }
+    }
+  }
+
+  async fileExists(filePath: string): Promise<boolean> {
+    try {
+      await fs.access(filePath);
+      return true;
+    } catch (e) {
+      return false;
+    }
+  }
+
+  async readMetadata(key: string): Promise<ObjectMetadata | undefined> {
+    return this.metadataStore.getMetadata(key).catch((e) => {
+      afLogger.error(`Could not read metadata from db: ${e}`);
+      throw new Error(`Could not read metadata from db: ${e}`);
+    });
+  }
+
+  /**
+   * Writes metadata for a freshly stored file and marks it for deletion,
+   * same as it happens after PUT to the presigned upload URL.
+   */
+  async commitObject(
+    key: string,
+    contentType: string,
+    size: number,
+    extra: Pick<ObjectMetadata, "sha256" | "md5" | "encryption"> & UploadMetadata,
+  ): Promise<ObjectMetadata> {
+    const metadata: ObjectMetadata = {
+      contentType,
+      createdAt: +Date.now(),
+      size,
+      ...extra,
+    };
+    try {
+      await this.metadataStore.putMetadata(key, metadata);
+    } catch (e) {
+      afLogger.error(`Could not write metadata to db: ${e}`);
+      throw new Error(`Could not write metadata to db: ${e}`);
+    }
+    await this.changeQuotaUsage(key, size);
+    await this.markKeyForDeletion(key);
+    return metadata;
+  }
+
+  /**
+   * Runs beforeUpload hook for the staged file, throws UploadPolicyError if file is rejected or quarantined.
+   */
+  async runBeforeUploadHook(
+    tempPath: string,
+    upload: Omit<BeforeUploadContext, "filePath" | "createReadStream"> & Pick<ObjectMetadata, "encryption">,
+  ): Promise<void> {
+    const beforeUpload = this.options.hooks?.beforeUpload;
+    if (!beforeUpload) {
+      return;
+    }
+    const { encryption, ...context } = upload;
+    let result: BeforeUploadResult;
+    try {
+      result = await beforeUpload({
+        ...context,
+        filePath: tempPath,
+        createReadStream: () => encryption
+          ? createDecryptStream(tempPath, this.getEncryptionKey(encryption.keyId), encryption.chunkSize, upload.size)
+          : createReadStream(tempPath),
+      });
+    } catch (e) {
+      afLogger.error(`beforeUpload hook failed for ${upload.key}: ${e}`);
+      throw new Error(`beforeUpload hook failed: ${e}`);
+    }
+    if (!result || result.action === "accept") {
+      return;
+    }
+    const reason = result.reason ?? "File is rejected";
+    let quarantinePath: string | undefined;
+    if (result.action === "quarantine") {
+      quarantinePath = path.join(this.internalFolder, 'quarantine', upload.key);
+      await fs.mkdir(path.dirname(quarantinePath), { recursive: true });
+      await fs.rename(tempPath, quarantinePath);
+    }
+    this.emitEvent("rejected", { key: upload.key, reason, quarantinePath });
+    throw new UploadPolicyError(422, reason);
+  }
+
+  /**
+   * Creates an object writer for the specified key and content type.
+   * For example, this can be used to write large files in chunks or streams (AWS S3 Multipart Upload).
+   * Data is written to a temp file which is synced and moved under the key only when stream finishes.
+   * Metadata is written before the stream emits "finish", and the file is marked for deletion same as after PUT upload,
+   * so it should be marked for not deletion once it is referenced by a record.
+   * Fails if the file already exists. If the stream is destroyed before finishing, the temp file is removed.
+   * @param key - The key of the file to be written e.g. "uploads/file.txt"
+   * @param contentType - The MIME type of the file to be written e.g. "image/png"
+   * @param expected - Expected checksums (hex encoded), stream fails with UploadPolicyError if content does not match
+   * @param metadata - Additional metadata to store, e.g. originalFilename, userMetadata or tags
+   */
+  async createWriteStream(
+    key: string,
+    contentType: string,
+    expected: { sha256?: string; md5?: string } = {},
+    metadata: UploadMetadata = {},
+  ): Promise<Writable> {
+    const filePath = this.resolveKeyPath(key);
+    if (!contentType) {
+      throw new Error("Content type is required");
+    }
+    if (!this.isContentTypeAllowed(contentType)) {
+      throw new UploadPolicyError(415, `Content type ${contentType} is not allowed`);
+    }
+    validateUploadMetadata(metadata);
+    if (await this.fileExists(filePath)) {
+      throw new UploadPolicyError(409, `File ${key} already exists`);
+    }
+
+    const tempPath = path.join(this.stagingFolder, `${crypto.randomUUID()}.tmp`);
+    const fileStream = createWriteStream(tempPath, { flags: "wx" });
+    await once(fileStream, "open");
+    const encryption = this.getCurrentEncryption();
+    // plaintext goes either directly to file or through encryptor
+    const encryptor = encryption
+      ? createEncryptStream(this.getEncryptionKey(encryption.keyId), encryption.chunkSize)
+      : undefined;
+    encryptor?.pipe(fileStream);
+    const sink: Writable = encryptor ?? fileStream;
+    const sha256 = crypto.createHash("sha256");
+    const md5 = this.options.storeMd5 || expected.md5 ? crypto.createHash("md5") : undefined;
+    let size = 0;
+    let committed = false;
+    // beginning of the content for magic bytes check, undefined once checked
+    let head: Buffer | undefined = this.options.contentTypes?.sniff === false ? undefined : Buffer.alloc(0);
+    const checkHead = () => {
+      const mismatch = findContentTypeMismatch(contentType, head);
+      head = undefined;
+      if (mismatch) {
+        throw new UploadPolicyError(415, `Content does not match declared content type ${contentType}`);
+      }
+    };
+
+    const finalize = async () => {
+      const checksums = { sha256: sha256.digest("hex"), md5: md5?.digest("hex") };
+      if (
+        (expected.sha256 && expected.sha256 !== checksums.sha256)
+        || (expected.md5 && expected.md5 !== checksums.md5)
+      ) {
+        throw new UploadPolicyError(400, "Checksum of uploaded content does not match expected one");
+      }
+      // make sure data is on disk before file appears under the key
+      const fileHandle = await fs.open(tempPath, "r+");
+      await fileHandle.sync().finally(() => fileHandle.close());
+      await this.runBeforeUploadHook(tempPath, {
+        key,
+        contentType,
+        size,
+        sha256: checksums.sha256,
+        metadata,
+        encryption,
+      });
+      let objectMetadata: ObjectMetadata;
+      const publish = async () => {
+        if (await this.getRemainingQuota(key) < size) {
+          throw new UploadPolicyError(507, "Storage quota exceeded");
+        }
+        await this.publishStagedFile(tempPath, filePath, key);
+        try {
+          objectMetadata = await this.commitObject(key, contentType, size, { ...metadata, ...checksums, encryption });
+        } catch (e) {
+          // file without metadata is not accessible and blocks the key, so remove it
+          await fs.unlink(filePath).catch(() => {});
+          await this.metadataStore.delCandidate(key).catch(() => {});
+          throw e;
+        }
+        committed = true;
+      };
+      await this.withQuotaQueue(publish);
+      this.emitEvent("uploaded", { key, metadata: objectMetadata });
+    };
+
+    const writer = new Writable({
+      write: (chunk, encoding, callback) => {
+        if (head) {
+          head = Buffer.concat([head, chunk]).subarray(0, SNIFF_LENGTH);
+          if (head.length === SNIFF_LENGTH) {
+            try {
+              checkHead();
+            } catch (e) {
+              return callback(e);
+            }
+          }
+        }
+        sha256.update(chunk);
+        md5?.update(chunk);
+        size += chunk.length;
+        sink.write(chunk, encoding, callback);
+      },
+      final: (callback) => {
+        if (head) {
+          try {
+            checkHead();
+          } catch (e) {
+            return callback(e);
+          }
+        }
+        fileStream.once("close", () => {
+          finalize().then(() => callback(), callback);
+        });
+        sink.end();
+      },
+      destroy: (err, callback) => {
+        if (committed) {
+          return callback(err);
+        }
+        encryptor?.destroy();
+        fileStream.destroy();
+        // wait until file descriptor is closed, then remove temp file
+        finished(fileStream, () => {
+          fs.unlink(tempPath).catch(() => {}).finally(() => callback(err));
+        });
+      },
+    });
+    fileStream.on("error", (e) => writer.destroy(e));
+    encryptor?.on("error", (e) => writer.destroy(e));
+    return writer;
+  }
+
+  /**
+   * Stores the object from the server side without presigned URL.
+   * Same as createWriteStream, object is marked for deletion after it is stored.
+   * @param key - The key of the file to be written e.g. "uploads/file.txt"
+   * @param body - Buffer or readable stream with file content
+   * @param contentType - The MIME type of the file to be written e.g. "image/png"
+   * @param metadata - Additional metadata to store, e.g. originalFilename, userMetadata or tags
+   */
+  async putObject(
+    key: string,
+    body: Buffer | Readable,
+    contentType: string,
+    metadata: UploadMetadata = {},
+  ): Promise<void> {
+    const writer = await this.createWriteStream(key, contentType, {}, metadata);
+    await pipeline(Buffer.isBuffer(body) ? Readable.from([body]) : body, writer);
+  }
+
+  getResumableUploadPaths(key: string, uploadId = ""): { folder: string; sessionPath: string; partPath: string } {
+    // sessions are grouped by key, so the sweeper can find them by key of the deletion candidate
+    const folder = path.join(this.internalFolder, 'resumable', crypto.createHash("sha256").update(key).digest("hex"));
+    return {
+      folder,
+      sessionPath: path.join(folder, `${uploadId}.json`),
+      partPath: path.join(folder, `${uploadId}.part`),
+    };
+  }
+
+  /**
+   * Received chunks are kept in the part file until the upload is complete, they can't be encrypted there
+   * because encrypted file can't be appended, so resumable uploads are disabled while encryption is enabled.
+   */
+  assertResumableUploadsAvailable(): void {
+    if (this.options.encryption) {
+      throw new UploadPolicyError(501, "Resumable uploads are not available while encryption is enabled, use PUT upload");
+    }
+  }
+
+  /**
+   * Creates resumable upload session, content is sent later by PATCH requests to the session URL.
+   * The key is marked for deletion, so session which is not completed is removed by the sweeper after retention period
+   * since the last chunk.
+   * @param length - total size of the upload in bytes
+   * @param expected - Expected checksums (hex encoded), checked when all chunks are received
+   * @returns id of the upload session
+   */
+  async createResumableUpload(
+    key: string,
+    contentType: string,
+    length: number,
+    expected: { sha256?: string; md5?: string } = {},
+    metadata: UploadMetadata = {},
+  ): Promise<string> {
+    this.assertResumableUploadsAvailable();
+    const filePath = this.resolveKeyPath(key);
+    if (!this.isContentTypeAllowed(contentType)) {
+      throw new UploadPolicyError(415, `Content type ${contentType} is not allowed`);
+    }
+    validateUploadMetadata(metadata);
+    if (await this.fileExists(filePath)) {
+      throw new UploadPolicyError(409, "File already exists");
+    }
+    if (await this.getRemainingQuota(key) < length) {
+      throw new UploadPolicyError(507, "Storage quota exceeded");
+    }
+    const session: ResumableUploadSession = {
+      uploadId: crypto.randomBytes(16).toString("hex"),
+      key,
+      contentType,
+      length,
+      createdAt: Date.now(),
+      expected,
+      metadata,
+    };
+    const { folder, sessionPath, partPath } = this.getResumableUploadPaths(key, session.uploadId);
+    await fs.mkdir(folder, { recursive: true });
+    await fs.writeFile(partPath, "", { flag: "wx" });
+    await fs.writeFile(sessionPath, JSON.stringify(session), { flag: "wx" });
+    await this.touchResumableUpload(key);
+    return session.uploadId;
+  }
+
+  /**
+   * Returns session and number of received bytes, or undefined if session does not exist (e.g. completed or expired).
+   */
+  async readResumableUpload(key: string, uploadId: string): Promise<{ session: ResumableUploadSession; offset: number } | undefined> {
+    const { sessionPath, partPath } = this.getResumableUploadPaths(key, uploadId);
+    try {
+      const session: ResumableUploadSession = JSON.parse(await fs.readFile(sessionPath, "utf8"));
+      const { size } = await fs.stat(partPath);
+      return { session, offset: size };
+    } catch (e) {
+      if (e.code === "ENOENT") {
+        return undefined;
+      }
+      throw e;
+    }
+  }
+
+  /**
+   * Moves deletion time of the key, so upload which is still in progress is not removed by the sweeper.
+   */
+  async touchResumableUpload(key: string): Promise<void> {
+    try {
+      await this.metadataStore.putCandidate(key, Date.now());
+    } catch (e) {
+      afLogger.error(`Could not write metadata to db: ${e}`);
+      throw new Error(`Could not write metadata to db: ${e}`);
+    }
+  }
+
+  /**
+   * Stores received content as the object, same way as createWriteStream does (checksums, content type check,
+   * beforeUpload hook, quota and encryption). Session is removed even if it fails, because it can't be resumed after that.
+   */
+  async completeResumableUpload(session: ResumableUploadSession): Promise<void> {
+    const { partPath } = this.getResumableUploadPaths(session.key, session.uploadId);
+    try {
+      const writer = await this.createWriteStream(session.key, session.contentType, session.expected, session.metadata);
+      await pipeline(createReadStream(partPath), writer);
+    } finally {
+      await this.removeResumableUpload(session.key, session.uploadId);
+    }
+  }
+
+  async removeResumableUpload(key: string, uploadId: string): Promise<void> {
+    const { folder, sessionPath, partPath } = this.getResumableUploadPaths(key, uploadId);
+    await fs.rm(sessionPath, { force: true });
+    await fs.rm(partPath, { force: true });
+    if (await this.hasResumableUploads(key)) {
+      return;
+    }
+    // fails if another session was created meanwhile
+    await fs.rmdir(folder).catch(() => {});
+    // candidate was created for the session, it is still needed only if object is stored
+    if (!await this.fileExists(path.resolve(this.options.fileSystemFolder, key))) {
+      await this.metadataStore.delCandidate(key);
+    }
+  }
+
+  /**
+   * Removes all resumable upload sessions of the key.
+   */
+  async removeResumableUploads(key: string): Promise<void> {
+    await fs.rm(this.getResumableUploadPaths(key).folder, { recursive: true, force: true });
+  }
+
+  async hasResumableUploads(key: string): Promise<boolean> {
+    try {
+      const entries = await fs.readdir(this.getResumableUploadPaths(key).folder);
+      return entries.some((entry) => entry.endsWith(".json"));
+    } catch (e) {
+      if (e.code === "ENOENT") {
+        return false;
+      }
+      throw e;
+    }
+  }
+
+  getResumableUploadExpiration(key: string): string {
+    return new Date(Date.now() + this.getRetentionPeriod(key)).toUTCString();
+  }
+
+  /**
+   * Handles tus creation request, which is sent by POST to the presigned upload URL.
+   * Responds with session URL in Location header, it is signed for retention period of the key.
+   */
+  async handleResumableCreate(req: IncomingMessage, res: ServerResponse, key: string, query: RequestQuery): Promise<void> {
+    res.setHeader("Tus-Resumable", TUS_VERSION);
+    if (req.headers["tus-resumable"] !== TUS_VERSION) {
+      res.setHeader("Tus-Version", TUS_VERSION);
+      return sendText(res, 412, "Unsupported tus version");
+    }
+    // checked before single-use URL is used up
+    try {
+      this.assertResumableUploadsAvailable();
+    } catch (e) {
+      return sendText(res, e.status, e.message);
+    }
+    try {
+      this.resolveKeyPath(key);
+    } catch (e) {
+      return sendText(res, 400, "Invalid key, access denied");
+    }
+
+    // same signed parameters as for PUT upload
+    const signedContentType = typeof query.contentType === "string" ? query.contentType : "";
+    const payload = {
+      contentType: signedContentType,
+      ...uploadParamsFromQuery(query),
+      ...uploadMetadataParamsFromQuery(query),
+    };
+    const access = await this.verifySignedUrl(key, query, payload);
+    if (access.ok === false) {
+      return sendText(res, 403, access.message);
+    }
+    const policy = uploadPolicyFromParams(payload);
+    let uploadMetadata: UploadMetadata;
+    try {
+      uploadMetadata = uploadMetadataFromParams(payload);
+    } catch (e) {
+      return sendText(res, 400, "Invalid metadata");
+    }
+    // request has no body, so content type which was not signed is taken from tus metadata
+    const contentType = signedContentType || parseTusMetadata(req.headers["upload-metadata"] as string | undefined).filetype;
+    if (!contentType) {
+      return sendText(res, 400, "Content type is required");
+    }
+    if (policy.allowedContentTypes && !contentTypeMatches(contentType, policy.allowedContentTypes)) {
+      return sendText(res, 400, "Invalid content type");
+    }
+    const length = parseTusNumber(req.headers["upload-length"] as string | undefined);
+    if (length === undefined) {
+      return sendText(res, 400, "Upload-Length header is required");
+    }
+    try {
+      assertDeclaredLength(policy, length.toString());
+    } catch (e) {
+      return sendText(res, e.status, e.message);
+    }
+    const nonceCheck = await this.consumeUrlNonce(query);
+    if (nonceCheck.ok === false) {
+      return sendText(res, 403, nonceCheck.message);
+    }
+
+    let uploadId: string;
+    try {
+      uploadId = await this.createResumableUpload(key, contentType, length, { sha256: policy.sha256, md5: policy.md5 }, uploadMetadata);
+    } catch (e) {
+      if (e instanceof UploadPolicyError) {
+        return sendText(res, e.status, e.message);
+      }
+      afLogger.error(`Could not create resumable upload ${key}: ${e}`);
+      return sendText(res, 500, "Could not create upload");
+    }
+    const expiresIn = Math.round(this.getRetentionPeriod(key) / 1000);
+    res.setHeader("Location", this.presignUrl(`${this.expressBase}/${key}`, expiresIn, { uploadId }));
+    res.setHeader("Upload-Expires", this.getResumableUploadExpiration(key));
+    sendText(res, 201);
+  }
+
+  /**
+   * Checks tus version and session URL signature, responds with error and returns undefined if request can't be served.
+   */
+  async authorizeResumableRequest(
+    req: IncomingMessage,
+    res: ServerResponse,
+    key: string,
+    query: RequestQuery,
+  ): Promise<{ key: string; uploadId: string } | undefined> {
+    if (req.headers["tus-resumable"] !== TUS_VERSION) {
+      res.setHeader("Tus-Version", TUS_VERSION);
+      sendText(res, 412, "Unsupported tus version");
+      return undefined;
+    }
+    const uploadId = query.uploadId;
+    if (!isValidUploadId(uploadId)) {
+      sendText(res, 400, "Invalid upload id");
+      return undefined;
+    }
+    try {
+      this.resolveKeyPath(key);
+    } catch (e) {
+      sendText(res, 400, "Invalid key, access denied");
+      return undefined;
+    }
+    const access = await this.verifySignedUrl(key, query, { uploadId });
+    if (access.ok === false) {
+      sendText(res, 403, access.message);
+      return undefined;
+    }
+    return { key, uploadId };
+  }
+
+  /**
+   * Handles tus discovery request (also used as CORS preflight), it does not require signature.
+   * Tus-Max-Size is taken from upload policy of the URL if it has one, it is only a hint, POST checks the signed policy.
+   */
+  handleResumableOptions(req: IncomingMessage, res: ServerResponse, key: string, query: RequestQuery): void {
+    res.setHeader("Allow", ALLOWED_METHODS);
+    // encryption disables resumable uploads, so tus is not advertised then
+    if (!this.options.encryption) {
+      res.setHeader("Tus-Resumable", TUS_VERSION);
+      res.setHeader("Tus-Version", TUS_VERSION);
+      res.setHeader("Tus-Extension", TUS_EXTENSIONS);
+      const policy = uploadPolicyFromParams(uploadParamsFromQuery(query));
+      const maxSize = Math.min(policy.maxSize ?? Infinity, policy.contentLength ?? Infinity);
+      if (Number.isFinite(maxSize)) {
+        res.setHeader("Tus-Max-Size", maxSize.toString());
+      }
+    }
+    sendText(res, 204);
+  }
+
+  async handleResumableHead(req: IncomingMessage, res: ServerResponse, key: string, query: RequestQuery): Promise<void> {
+    res.setHeader("Tus-Resumable", TUS_VERSION);
+    res.setHeader("Cache-Control", "no-store");
+    const request = await this.authorizeResumableRequest(req, res, key, query);
+    if (!request) {
+      return;
+    }
+    const upload = await this.readResumableUpload(request.key, request.uploadId);
+    if (!upload) {
+      return sendText(res, 404);
+    }
+    res.setHeader("Upload-Offset", upload.offset.toString());
+    res.setHeader("Upload-Length", upload.session.length.toString());
+    res.setHeader("Upload-Expires", this.getResumableUploadExpiration(request.key));
+    sendText(res, 200);
+  }
+
+  /**
+   * Appends chunk to resumable upload, the upload is completed by the request which sends the last byte.
+   * Bytes received before connection dropped are kept, client gets the offset to continue from by HEAD request.
+   */
+  async handleResumablePatch(req: IncomingMessage, res: ServerResponse, key: string, query: RequestQuery): Promise<void> {
+    res.setHeader("Tus-Resumable", TUS_VERSION);
+    const request = await this.authorizeResumableRequest(req, res, key, query);
+    if (!request) {
+      return;
+    }
+    const { uploadId } = request;
+    // sessions created before encryption was enabled can't get more plaintext chunks
+    try {
+      this.assertResumableUploadsAvailable();
+    } catch (e) {
+      return sendText(res, e.status, e.message);
+    }
+    if (req.headers["content-type"] !== TUS_CHUNK_CONTENT_TYPE) {
+      return sendText(res, 415, `Content type should be ${TUS_CHUNK_CONTENT_TYPE}`);
+    }
+    const requestOffset = parseTusNumber(req.headers["upload-offset"] as string | undefined);
+    if (requestOffset === undefined) {
+      return sendText(res, 400, "Upload-Offset header is required");
+    }
+    if (this.resumableUploadLocks.has(uploadId)) {
+      return sendText(res, 423, "Upload is locked by another request");
+    }
+    this.resumableUploadLocks.add(uploadId);
+    try {
+      const upload = await this.readResumableUpload(key, uploadId);
+      if (!upload) {
+        return sendText(res, 404, "Upload not found");
+      }
+      const { session, offset } = upload;
+      if (requestOffset !== offset) {
+        return sendText(res, 409, `Upload-Offset should be ${offset}`);
+      }
+      if (await this.fileExists(path.resolve(this.options.fileSystemFolder, key))) {
+        await this.removeResumableUpload(key, uploadId);
+        return sendText(res, 409, "File already exists");
+      }
+      await this.touchResumableUpload(key);
+
+      const { partPath } = this.getResumableUploadPaths(key, uploadId);
+      const limiter = createUploadPolicyLimiter({ maxSize: session.length - offset });
+      req.pipe(limiter);
+      req.on("close", () => {
+        if (!req.complete) {
+          limiter.destroy(new Error("Request aborted"));
+        }
+      });
+      try {
+        await pipeline(limiter, this.createRequestMeter(req, "in"), createWriteStream(partPath, { flags: "a" }));
+      } catch (e) {
+        req.unpipe(limiter);
+        if (e instanceof UploadPolicyError) {
+          res.setHeader("Connection", "close");
+          return sendText(res, e.status, "Chunk exceeds Upload-Length");
+        }
+        if (!res.headersSent && req.complete) {
+          afLogger.error(`Could not write chunk of resumable upload ${key}: ${e}`);
+          sendText(res, 500, "Could not write chunk");
+        }
+        return;
+      }
+
+      const { size } = await fs.stat(partPath);
+      res.setHeader("Upload-Offset", size.toString());
+      if (size === session.length) {
+        try {
+          await this.completeResumableUpload(session);
+        } catch (e) {
+          if (e instanceof UploadPolicyError) {
+            return sendText(res, e.status, e.message);
+          }
+          if (e.code === "EEXIST") {
+            return sendText(res, 409, "File already exists");
+          }
+          afLogger.error(`Could not complete resumable upload ${key}: ${e}`);
+          return sendText(res, 500, "Could not upload file");
+        }
+      } else {
+        res.setHeader("Upload-Expires", this.getResumableUploadExpiration(key));
+      }
+      sendText(res, 204);
+    } finally {
+      this.resumableUploadLocks.delete(uploadId);
+    }
+  }
+
+  /**
+   * Handles tus termination request: client cancels the upload and received bytes are removed.
+   */
+  async handleResumableDelete(req: IncomingMessage, res: ServerResponse, key: string, query: RequestQuery): Promise<void> {
+    res.setHeader("Tus-Resumable", TUS_VERSION);
+    const request = await this.authorizeResumableRequest(req, res, key, query);
+    if (!request) {
+      return;
+    }
+    if (this.resumableUploadLocks.has(request.uploadId)) {
+      return sendText(res, 423, "Upload is locked by another request");
+    }
+    if (!await this.readResumableUpload(request.key, request.uploadId)) {
+      return sendText(res, 404, "Upload not found");
+    }
+    await this.removeResumableUpload(request.key, request.uploadId);
+    sendText(res, 204);
+  }
+
+  /**
+   * Returns readable stream of the object content.
+   * @param key - The key of the file e.g. "uploads/file.txt"
+   * @param versionId - id of the version from listVersions to read it from the trash
+   */
+  async getObjectStream(key: string, versionId?: string): Promise<Readable> {
+    if (versionId !== undefined) {
+      const version = await this.findVersion(key, versionId);
+      return this.createFileReadStream(this.getVersionPaths(key, versionId).dataPath, version.metadata);
+    }
+    const filePath = this.resolveKeyPath(key);
+    if (!await this.fileExists(filePath)) {
+      throw new Error("File not found");
+    }
+    const metadata = await this.readMetadata(key);
+    if (!metadata) {
+      throw new Error(`Metadata for key ${key} not found`);
+    }
+    return this.createObjectReadStream(key, metadata);
+  }
+
+  /**
+   * Checks content type against contentTypes.allowed and contentTypes.denied options.
+   */
+  isContentTypeAllowed(contentType: string): boolean {
+    const { allowed, denied } = this.options.contentTypes ?? {};
+    if (allowed && !contentTypeMatches(contentType, allowed)) {
+      return false;
+    }
+    return !denied || !contentTypeMatches(contentType, denied);
+  }
+
+  /**
+   * Returns custom metadata of the object, which is also sent as x-meta-* headers on download.
+   * @param key - The key of the file e.g. "uploads/file.txt"
+   */
+  async getObjectMetadata(key: string): Promise<Record<string, string>> {
+    return (await this.getExistingMetadata(key)).userMetadata ?? {};
+  }
+
+  /**
+   * Replaces custom metadata of the object.
+   * @param key - The key of the file e.g. "uploads/file.txt"
+   * @param userMetadata - e.g. { "uploaded-by": "42", "record-id": "17" }
+   */
+  async setObjectMetadata(key: string, userMetadata: Record<string, string>): Promise<void> {
+    validateUserMetadata(userMetadata);
+    const metadata = await this.getExistingMetadata(key);
+    await this.metadataStore.putMetadata(key, { ...metadata, userMetadata });
+  }
+
+  async getObjectTags(key: string): Promise<Record<string, string>> {
+    return (await this.getExistingMetadata(key)).tags ?? {};
+  }
+
+  /**
+   * Replaces tags of the object.
+   * @param key - The key of the file e.g. "uploads/file.txt"
+   * @param tags - e.g. { source: "import" }
+   */
+  async setObjectTags(key: string, tags: Record<string, string>): Promise<void> {
+    validateTags(tags);
+    const metadata = await this.getExistingMetadata(key);
+    await this.metadataStore.putMetadata(key, { ...metadata, tags });
+  }
+
+  async getExistingMetadata(key: string): Promise<ObjectMetadata> {
+    const metadata = await this.headObject(key);
+    if (!metadata) {
+      throw new Error(`Object ${key} not found`);
+    }
+    return metadata;
+  }
+
+  /**
+   * Lists objects in key order from the metadata store, page by page.
+   * Objects which are marked for deletion but not removed yet are listed too.
+   * @returns objects and common prefixes of the page, pass nextCursor to get the next page
+   */
+  async listObjects(options: ListObjectsOptions = {}): Promise<ListObjectsResult> {
+    const { prefix = "", delimiter, cursor } = options;
+    const limit = options.limit ?? 1000;
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new Error("limit should be a positive integer");
+    }
+    const range = prefixRange(prefix);
+    if (cursor && compareKeys(cursor, prefix) > 0) {
+      range.gte = cursor;
+    }
+    // cursor is either the last listed key or the last common prefix which should be skipped completely
+    const cursorIsPrefix = !!(cursor && delimiter && cursor.endsWith(delimiter));
+
+    const result: ListObjectsResult = { objects: [], commonPrefixes: [] };
+    let count = 0;
+    let last: string | undefined;
+    for await (const [key, metadata] of this.metadataStore.iterateMetadata(range)) {
+      if (cursor && (key === cursor || (cursorIsPrefix && key.startsWith(cursor)))) {
+        continue;
+      }
+      const delimiterIndex = delimiter ? key.indexOf(delimiter, prefix.length) : -1;
+      const commonPrefix = delimiterIndex === -1 ? undefined : key.slice(0, delimiterIndex + delimiter.length);
+      if (commonPrefix !== undefined && commonPrefix === last) {
+        continue;
+      }
+      if (count === limit) {
+        result.nextCursor = last;
+        break;
+      }
+      count++;
+      if (commonPrefix !== undefined) {
+        result.commonPrefixes.push(commonPrefix);
+        last = commonPrefix;
+      } else {
+        result.objects.push({ key, ...metadata });
+        last = key;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Counts objects and their total size (plaintext size for encrypted objects).
+   * @param prefix - key prefix e.g. "customers/42/"
    */
-   async getKeyAsDataURL(key: string): Promise<string> {
-    const parsed = this.parseKeyWithQuery(key);
-    key = parsed.key;
+  async getUsage(prefix = ""): Promise<StorageUsage> {
+    const usage: StorageUsage = { objects: 0, bytes: 0, pendingDeletionObjects: 0, pendingDeletionBytes: 0 };
+    const range = prefixRange(prefix);
+    for await (const [, metadata] of this.metadataStore.iterateMetadata(range)) {
+      usage.objects++;
+      usage.bytes += metadata.size;
+    }
+    for await (const [key] of this.metadataStore.iterateCandidates(range)) {
+      const metadata = await this.metadataStore.getMetadata(key);
+      // candidate might be left after the object was removed
+      if (metadata) {
+        usage.pendingDeletionObjects++;
+        usage.pendingDeletionBytes += metadata.size;
+      }
+    }
+    return usage;
+  }
 
-    const presignedAccess = this.verifyPresignedAccess(key, parsed.query);
-    if (presignedAccess.ok === false) {
-      throw new Error(presignedAccess.message);
+  /**
+   * Returns object metadata or null if object does not exist.
+   * @param key - The key of the file e.g. "uploads/file.txt"
+   */
+  async headObject(key: string): Promise<ObjectMetadata | null> {
+    const filePath = this.resolveKeyPath(key);
+    if (!await this.fileExists(filePath)) {
+      return null;
+    }
+    return (await this.readMetadata(key)) ?? null;
+  }
+
+  /**
+   * Copies the object with its metadata (content type, checksums, user metadata and tags).
+   * The copy is a new object, so it is marked for deletion same as uploaded file, until markKeyForNotDeletion is called.
+   * Objects are never modified in place, so the copy is a hard link to the source file when filesystem supports it.
+   * @param sourceKey - The key of existing object e.g. "records/1/photo.png"
+   * @param key - The key of the copy e.g. "records/2/photo.png"
+   */
+  async copyObject(sourceKey: string, key: string, options: CopyObjectOptions = {}): Promise<void> {
+    const { sourcePath, filePath, metadata, replaced } = await this.prepareObjectTransfer(sourceKey, key, options);
+
+    const tempPath = path.join(this.stagingFolder, `${crypto.randomUUID()}.tmp`);
+    try {
+      await fs.link(sourcePath, tempPath);
+    } catch (e) {
+      if (!["EPERM", "ENOTSUP", "EOPNOTSUPP", "ENOSYS", "EXDEV"].includes(e.code)) {
+        throw e;
+      }
+      // reflink on filesystems which support it (e.g. btrfs, xfs, APFS), full copy otherwise
+      await fs.copyFile(sourcePath, tempPath, fs.constants.COPYFILE_FICLONE);
+    }
+
+    let copyMetadata: ObjectMetadata;
+    try {
+      copyMetadata = await this.withQuotaQueue(async () => {
+        if (await this.getRemainingQuota(key) + (replaced?.size ?? 0) < metadata.size) {
+          throw new UploadPolicyError(507, "Storage quota exceeded");
+        }
+        let archived: ObjectVersion | undefined;
+        let replacedCandidate: number | undefined;
+        if (replaced) {
+          if (this.options.versioning) {
+            archived = await this.archiveObject(key, replaced, "overwritten");
+          }
+          replacedCandidate = await this.metadataStore.getCandidate(key);
+          await fs.rename(tempPath, filePath);
+          await this.forgetObject(key, replaced);
+        } else {
+          await this.publishStagedFile(tempPath, filePath, key);
+        }
+        const { contentType, size, createdAt, ...extra } = metadata;
+        try {
+          return await this.commitObject(key, contentType, size, extra);
+        } catch (e) {
+          // file without metadata is not accessible and blocks the key, so remove it
+          await fs.unlink(filePath).catch(() => {});
+          await this.metadataStore.delCandidate(key).catch(() => {});
+          if (archived) {
+            await this.rollbackReplacedObject(key, archived, replacedCandidate);
+          }
+          throw e;
+        }
+      });
+    } finally {
+      await fs.unlink(tempPath).catch(() => {});
+    }
+    this.emitEvent("copied", { key, sourceKey, metadata: copyMetadata });
+  }
+
+  /**
+   * Moves the object to another key with its metadata and deletion state: object which is marked for deletion
+   * is removed at the same time as it would be under the old key, object marked for not deletion stays so.
+   * Presigned URLs of the old key stop working.
+   * @param sourceKey - The key of existing object e.g. "tmp/photo.png"
+   * @param key - The new key e.g. "records/1/photo.png"
+   */
+  async moveObject(sourceKey: string, key: string, options: CopyObjectOptions = {}): Promise<void> {
+    const { sourcePath, filePath, metadata, replaced } = await this.prepareObjectTransfer(sourceKey, key, options);
+    const candidate = await this.metadataStore.getCandidate(sourceKey);
+
+    await this.withQuotaQueue(async () => {
+      if (await this.getRemainingQuota(key, sourceKey) + (replaced?.size ?? 0) < metadata.size) {
+        throw new UploadPolicyError(507, "Storage quota exceeded");
+      }
+      // source file is removed only after metadata is moved, so failure leaves the source object intact
+      let renamed = false;
+      const link = (from: string, to: string) => fs.link(from, to).catch((e) => {
+        if (!["EPERM", "ENOTSUP", "EOPNOTSUPP", "ENOSYS"].includes(e.code)) {
+          throw e;
+        }
+        // filesystem does not support hard links, then destination is the only copy of the file
+        renamed = true;
+        return fs.rename(from, to);
+      });
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      let archived: ObjectVersion | undefined;
+      let replacedCandidate: number | undefined;
+      if (replaced) {
+        const tempPath = path.join(this.stagingFolder, `${crypto.randomUUID()}.tmp`);
+        await link(sourcePath, tempPath);
+        try {
+          if (this.options.versioning) {
+            archived = await this.archiveObject(key, replaced, "overwritten");
+          }
+          replacedCandidate = await this.metadataStore.getCandidate(key);
+        } catch (e) {
+          // staging folder is cleaned up, so the file should not be left there
+          await (renamed ? fs.rename(tempPath, sourcePath) : fs.unlink(tempPath)).catch(() => {});
+          throw e;
+        }
+        await fs.rename(tempPath, filePath);
+        await this.forgetObject(key, replaced);
+      } else {
+        // hard link fails if destination exists, so concurrent upload to the key is not overwritten
+        await link(sourcePath, filePath);
+      }
+      try {
+        await this.metadataStore.putMetadata(key, metadata);
+        if (candidate !== undefined) {
+          await this.metadataStore.putCandidate(key, candidate);
+        }
+        await this.metadataStore.delMetadata(sourceKey);
+        await this.metadataStore.delCandidate(sourceKey);
+      } catch (e) {
+        if (renamed) {
+          // put the only copy back under the source key, metadata of the source was not removed
+          await fs.rename(filePath, sourcePath).catch((renameError) => {
+            afLogger.error(`Could not move file ${key} back to ${sourceKey}: ${renameError}`);
+          });
+        } else {
+          await fs.unlink(filePath).catch(() => {});
+        }
+        if (archived) {
+          await this.rollbackReplacedObject(key, archived, replacedCandidate);
+        }
+        afLogger.error(`Could not write metadata to db: ${e}`);
+        throw new Error(`Could not write metadata to db: ${e}`);
+      }
+      await fs.unlink(sourcePath).catch((e) => {
+        if (e.code !== "ENOENT") {
+          throw e;
+        }
+      });
+      await this.changeQuotaUsage(sourceKey, -metadata.size);
+      await this.changeQuotaUsage(key, metadata.size);
+      await this.removeImageVariants(sourceKey);
+    });
+    this.emitEvent("moved", { key, sourceKey, metadata });
+  }
+
+  /**
+   * Checks keys of copy or move and returns paths, metadata of the source and metadata of the object which will be replaced.
+   */
+  async prepareObjectTransfer(
+    sourceKey: string,
+    key: string,
+    options: CopyObjectOptions,
+  ): Promise<{ sourcePath: string; filePath: string; metadata: ObjectMetadata; replaced?: ObjectMetadata }> {
+    const sourcePath = this.resolveKeyPath(sourceKey);
+    const filePath = this.resolveKeyPath(key);
+    if (sourcePath === filePath) {
+      throw new Error("Source and destination keys are the same");
+    }
+    const metadata = await this.getExistingMetadata(sourceKey);
+    const replaced = await this.headObject(key) ?? undefined;
+    if (replaced && !options.overwrite) {
+      throw new Error(`File ${key} already exists`);
+    }
+    if (!replaced && await this.fileExists(filePath)) {
+      // file without metadata, e.g. upload is being committed right now
+      throw new Error(`File ${key} already exists`);
+    }
+    return { sourcePath, filePath, metadata, replaced };
+  }
+
+  /**
+   * Removes metadata, deletion candidate and quota usage of the object which file was replaced.
+   */
+  async forgetObject(key: string, metadata: ObjectMetadata): Promise<void> {
+    try {
+      await this.metadataStore.delMetadata(key);
+      await this.metadataStore.delCandidate(key);
+    } catch (e) {
+      afLogger.error(`Could not delete metadata from db: ${e}`);
+      throw new Error(`Could not delete metadata from db: ${e}`);
     }
+    await this.changeQuotaUsage(key, -metadata.size);
+    await this.removeImageVariants(key);
+    this.emitEvent("deleted", { key, metadata });
+  }
 
+  /**
+   * Puts the object which was moved to the trash by failed copy or move back under the key, together with
+   * its deletion state. Called after the new file is removed. If it fails too, the version stays in the trash.
+   */
+  async rollbackReplacedObject(key: string, version: ObjectVersion, candidate: number | undefined): Promise<void> {
     const filePath = path.resolve(this.options.fileSystemFolder, key);
+    const { versionPath, dataPath } = this.getVersionPaths(key, version.versionId);
+    try {
+      await fs.link(dataPath, filePath).catch((e) => {
+        if (!["EPERM", "ENOTSUP", "EOPNOTSUPP", "ENOSYS"].includes(e.code)) {
+          throw e;
+        }
+        return fs.copyFile(dataPath, filePath, fs.constants.COPYFILE_EXCL);
+      });
+    } catch (e) {
+      afLogger.error(`Could not restore replaced object ${key}, it is kept as version ${version.versionId}: ${e}`);
+      return;
+    }
+    try {
+      await this.metadataStore.putMetadata(key, version.metadata);
+      if (candidate !== undefined) {
+        await this.metadataStore.putCandidate(key, candidate);
+      }
+      await this.changeQuotaUsage(key, version.metadata.size);
+    } catch (e) {
+      await fs.unlink(filePath).catch(() => {});
+      afLogger.error(`Could not restore replaced object ${key}, it is kept as version ${version.versionId}: ${e}`);
+      return;
+    }
+    await fs.rm(versionPath, { force: true });
+    await fs.rm(dataPath, { force: true });
+  }
 
-    // Ensure filePath is within fileSystemFolder
-    const basePath = path.resolve(this.options.fileSystemFolder);
-    if (!filePath.startsWith(basePath + path.sep)) {
-      throw new Error("Invalid key, access denied");
+  /**
+   * Deletes the object, its metadata and deletion candidate record immediately.
+   * Does nothing if object does not exist.
+   * @param key - The key of the file e.g. "uploads/file.txt"
+   */
+  async deleteObject(key: string): Promise<void> {
+    const filePath = this.resolveKeyPath(key);
+    const metadata = await this.readMetadata(key);
+    if (metadata && this.options.versioning && await this.fileExists(filePath)) {
+      await this.archiveObject(key, metadata, "deleted");
+    }
+    try {
+      await fs.unlink(filePath);
+    } catch (e) {
+      if (e.code !== "ENOENT") {
+        afLogger.error(`Could not delete file ${key}: ${e}`);
+        throw new Error(`Could not delete file ${key}: ${e}`);
+      }
+    }
+    await this.withQuotaQueue(async () => {
+      try {
+        await this.metadataStore.delMetadata(key);
+        await this.metadataStore.delCandidate(key);
+      } catch (e) {
+        afLogger.error(`Could not delete metadata from db: ${e}`);
+        throw new Error(`Could not delete metadata from db: ${e}`);
+      }
+      if (metadata) {
+        await this.changeQuotaUsage(key, -metadata.size);
+      }
+    });
+    await this.removeImageVariants(key);
+    if (metadata) {
+      this.emitEvent("deleted", { key, metadata });
     }
+  }
 
-    // check if file exists
+  getImageVariantPaths(key: string, name = ""): { folder: string; dataPath: string; metadataPath: string } {
+    // variants are grouped by key, so they can be removed together with the original
+    const folder = path.join(this.internalFolder, 'variants', crypto.createHash("sha256").update(key).digest("hex"));
+    return {
+      folder,
+      dataPath: path.join(folder, `${name}.data`),
+      metadataPath: path.join(folder, `${name}.json`),
+    };
+  }
+
+  /**
+   * Returns cached variant of the image, generates it if it does not exist yet.
+   * Variant is encrypted if encryption is enabled, it does not count in quotas.
+   */
+  async getImageVariant(
+    key: string,
+    metadata: ObjectMetadata,
+    variant: ImageVariantOptions,
+  ): Promise<{ filePath: string; metadata: ObjectMetadata }> {
+    // source without checksum (stored before checksums were introduced) is identified by its creation time and size
+    const name = imageVariantCacheName(metadata.sha256 ?? `${metadata.createdAt}:${metadata.size}`, variant);
+    const { folder, dataPath, metadataPath } = this.getImageVariantPaths(key, name);
     try {
-      await fs.access(filePath);
+      const variantMetadata: ObjectMetadata = JSON.parse(await fs.readFile(metadataPath, "utf8"));
+      if (await this.fileExists(dataPath)) {
+        return { filePath: dataPath, metadata: variantMetadata };
+      }
     } catch (e) {
-      throw new Error("File not found");
+      if (e.code !== "ENOENT") {
+        throw e;
+      }
     }
 
-    // read file and convert to base64
-    const fileBuffer = await fs.readFile(filePath);
-    const base64 = fileBuffer.toString("base64");
-    const metadata = await this.metadataDb.get(key).catch((e) => {
-      afLogger.error(`Could not read metadata from db: ${e}`);
-      throw new Error(`Could not read metadata from db: ${e}`);
+    const jobKey = `${key}\0${name}`;
+    if (!this.imageVariantJobs.has(jobKey)) {
+      const job = (async () => {
+        const tempPath = path.join(this.stagingFolder, `${crypto.randomUUID()}.tmp`);
+        const encryption = this.getCurrentEncryption();
+        const sha256 = crypto.createHash("sha256");
+        let size = 0;
+        const measure = new Transform({
+          transform(chunk, _encoding, callback) {
+            sha256.update(chunk);
+            size += chunk.length;
+            callback(null, chunk);
+          },
+        });
+        try {
+          await pipeline([
+            this.createObjectReadStream(key, metadata),
+            await createImageTransform(variant),
+            measure,
+            ...(encryption ? [createEncryptStream(this.getEncryptionKey(encryption.keyId), encryption.chunkSize)] : []),
+            createWriteStream(tempPath, { flags: "wx" }),
+          ]);
+          const variantMetadata: ObjectMetadata = {
+            contentType: imageVariantContentType(metadata.contentType, variant),
+            createdAt: Date.now(),
+            size,
+            sha256: sha256.digest("hex"),
+            userMetadata: metadata.userMetadata,
+            encryption,
+          };
+          await fs.mkdir(folder, { recursive: true });
+          await fs.rename(tempPath, dataPath);
+          // metadata is written last, so variant is not served until its file is complete
+          await fs.writeFile(metadataPath, JSON.stringify(variantMetadata));
+          return { filePath: dataPath, metadata: variantMetadata };
+        } finally {
+          await fs.unlink(tempPath).catch(() => {});
+        }
+      })();
+      this.imageVariantJobs.set(jobKey, job);
+      job.finally(() => this.imageVariantJobs.delete(jobKey)).catch(() => {});
+    }
+    return this.imageVariantJobs.get(jobKey);
+  }
+
+  /**
+   * Removes cached variants of the key, they are generated again on request.
+   */
+  async removeImageVariants(key: string): Promise<void> {
+    await fs.rm(this.getImageVariantPaths(key).folder, { recursive: true, force: true });
+  }
+
+  getVersionPaths(key: string, versionId = ""): { folder: string; versionPath: string; dataPath: string } {
+    // versions are grouped by key, so they can be listed without reading the whole trash
+    const folder = path.join(this.internalFolder, 'versions', crypto.createHash("sha256").update(key).digest("hex"));
+    return {
+      folder,
+      versionPath: path.join(folder, `${versionId}.json`),
+      dataPath: path.join(folder, `${versionId}.data`),
+    };
+  }
+
+  /**
+   * Moves current content of the key to the trash as a new version. The file stays under the key,
+   * caller removes or replaces it after that.
+   */
+  async archiveObject(key: string, metadata: ObjectMetadata, reason: ObjectVersion["reason"]): Promise<ObjectVersion> {
+    const archivedAt = Date.now();
+    const version: ObjectVersion = { versionId: createVersionId(archivedAt), key, metadata, archivedAt, reason };
+    const { folder, versionPath, dataPath } = this.getVersionPaths(key, version.versionId);
+    await fs.mkdir(folder, { recursive: true });
+    const filePath = path.resolve(this.options.fileSystemFolder, key);
+    try {
+      // objects are never modified in place, so the version can share the file with the key until it is replaced
+      await fs.link(filePath, dataPath);
+    } catch (e) {
+      if (!["EPERM", "ENOTSUP", "EOPNOTSUPP", "ENOSYS"].includes(e.code)) {
+        afLogger.error(`Could not move ${key} to the trash: ${e}`);
+        throw new Error(`Could not move ${key} to the trash: ${e}`);
+      }
+      await fs.copyFile(filePath, dataPath, fs.constants.COPYFILE_FICLONE);
+    }
+    await fs.writeFile(versionPath, JSON.stringify(version));
+    return version;
+  }
+
+  /**
+   * Returns previous versions of the key from the trash, the newest first. Current object is not included,
+   * use headObject for it.
+   * @param key - The key of the file e.g. "uploads/file.txt"
+   */
+  async listVersions(key: string): Promise<ObjectVersion[]> {
+    this.resolveKeyPath(key);
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.getVersionPaths(key).folder);
+    } catch (e) {
+      if (e.code === "ENOENT") {
+        return [];
+      }
+      throw e;
+    }
+    const versions: ObjectVersion[] = [];
+    for (const entry of entries.filter((entry) => entry.endsWith(".json")).sort().reverse()) {
+      const versionId = entry.slice(0, -".json".length);
+      const version = await this.readVersion(key, versionId);
+      if (version) {
+        versions.push(version);
+      }
+    }
+    return versions;
+  }
+
+  async readVersion(key: string, versionId: string): Promise<ObjectVersion | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(this.getVersionPaths(key, versionId).versionPath, "utf8"));
+    } catch (e) {
+      // version might be purged meanwhile
+      if (e.code === "ENOENT") {
+        return undefined;
+      }
+      throw e;
+    }
+  }
+
+  /**
+   * Returns the version by id, or the newest one if versionId is not set. Throws if it does not exist.
+   */
+  async findVersion(key: string, versionId?: string): Promise<ObjectVersion> {
+    this.resolveKeyPath(key);
+    if (versionId !== undefined && !isValidVersionId(versionId)) {
+      throw new Error(`Invalid version id ${versionId}`);
+    }
+    const version = versionId === undefined
+      ? (await this.listVersions(key))[0]
+      : await this.readVersion(key, versionId);
+    if (!version) {
+      throw new Error(versionId === undefined ? `Object ${key} has no versions` : `Version ${versionId} of ${key} not found`);
+    }
+    return version;
+  }
+
+  /**
+   * Makes the version current content of the key again and removes it from the trash.
+   * Current object, if any, is moved to the trash when versioning is enabled.
+   * Restored object is not marked for deletion, because usually it is restored after it was removed by mistake.
+   * @param key - The key of the file e.g. "uploads/file.txt"
+   * @param versionId - id of the version from listVersions, the newest version by default
+   * @returns metadata of the restored object
+   */
+  async restore(key: string, versionId?: string): Promise<ObjectMetadata> {
+    const filePath = this.resolveKeyPath(key);
+    const version = await this.findVersion(key, versionId);
+    const { versionPath, dataPath } = this.getVersionPaths(key, version.versionId);
+    const { metadata } = version;
+
+    await this.withQuotaQueue(async () => {
+      const current = await this.headObject(key) ?? undefined;
+      if (await this.getRemainingQuota(key) + (current?.size ?? 0) < metadata.size) {
+        throw new UploadPolicyError(507, "Storage quota exceeded");
+      }
+      if (current) {
+        if (this.options.versioning) {
+          await this.archiveObject(key, current, "overwritten");
+        }
+        await fs.rename(dataPath, filePath);
+        await this.forgetObject(key, current);
+      } else {
+        // fails if file without metadata is there, e.g. upload is being committed right now
+        await this.publishStagedFile(dataPath, filePath, key);
+      }
+      try {
+        await this.metadataStore.putMetadata(key, metadata);
+        await this.metadataStore.delCandidate(key);
+      } catch (e) {
+        afLogger.error(`Could not write metadata to db: ${e}`);
+        throw new Error(`Could not write metadata to db: ${e}`);
+      }
+      await this.changeQuotaUsage(key, metadata.size);
+      await fs.rm(versionPath, { force: true });
     });
-    if (!metadata) {
-      throw new Error(`Metadata for key ${key} not found`);
+    this.emitEvent("restored", { key, versionId: version.versionId, metadata });
+    return metadata;
+  }
+
+  /**
+   * Removes versions from the trash for good. Called by the trash sweeper with trashRetentionPeriod.
+   * @param olderThan - remove only versions moved to the trash before the date, all versions by default
+   * @returns number of removed versions
+   */
+  async purgeTrash(olderThan?: Date): Promise<number> {
+    const trashFolder = path.join(this.internalFolder, 'versions');
+    let folders: string[];
+    try {
+      folders = await fs.readdir(trashFolder);
+    } catch (e) {
+      if (e.code === "ENOENT") {
+        return 0;
+      }
+      throw e;
     }
-    const metadataParsed = JSON.parse(metadata);
-    const dataUrl = `data:${metadataParsed.contentType};base64,${base64}`;
-    return dataUrl;
+    const now = Date.now();
+    let purged = 0;
+    for (const folder of folders) {
+      const folderPath = path.join(trashFolder, folder);
+      const entries = await fs.readdir(folderPath).catch((): string[] => []);
+      for (const entry of entries) {
+        const entryPath = path.join(folderPath, entry);
+        if (entry.endsWith(".json")) {
+          // version id starts with archive time
+          if (olderThan && parseInt(entry, 10) >= olderThan.getTime()) {
+            continue;
+          }
+          // version without data is not listed, so remove its record first
+          await fs.rm(entryPath, { force: true });
+          await fs.rm(entryPath.replace(/\.json$/, ".data"), { force: true });
+          purged++;
+        } else if (entry.endsWith(".data") && !entries.includes(entry.replace(/\.data$/, ".json"))) {
+          // data left by interrupted archive or purge, link changes ctime so it tells when data got to the trash
+          const stat = await fs.stat(entryPath).catch(() => undefined);
+          if (stat && now - stat.ctimeMs > STALE_STAGING_FILE_AGE) {
+            await fs.rm(entryPath, { force: true });
+          }
+        }
+      }
+      // fails if folder is not empty
+      await fs.rmdir(folderPath).catch(() => {});
+    }
+    return purged;
   }
 
   /**
-   * Creates an object writer for the specified key and content type.
-   * For example, this can be used to write large files in chunks or streams (AWS S3 Multipart Upload).
-   * @param key - The key of the file to be written e.g. "uploads/file.txt"
-   * @param contentType - The MIME type of the file to be written e.g. "image/png"
+   * Exports objects with their metadata and deletion state to the snapshot folder (see snapshot.ts for the format),
+   * e.g. to move them to another environment or to S3. Objects which were not changed since the previous export
+   * to the same folder are skipped if their files in the snapshot still match checksums, files of deleted objects are removed. Exported content is checked against
+   * stored checksums, the whole snapshot can be checked later by verifySnapshot.
+   * @param dest - snapshot folder, created if it does not exist
+   */
+  async exportSnapshot(dest: string, options: ExportSnapshotOptions = {}): Promise<SnapshotReport> {
+    const prefix = options.prefix ?? "";
+    await fs.mkdir(dest, { recursive: true });
+    const previous = await readSnapshotManifest(dest);
+    if (previous && previous.prefix !== prefix) {
+      throw new Error(`Snapshot in ${dest} was exported with prefix "${previous.prefix}", use another folder`);
+    }
+    const previousObjects = new Map((previous?.objects ?? []).map((object) => [object.key, object]));
+
+    const range = prefixRange(prefix);
+    const candidates = new Map<string, number>();
+    for await (const [key, createdAt] of this.metadataStore.iterateCandidates(range)) {
+      candidates.set(key, createdAt);
+    }
+    const current: [string, ObjectMetadata][] = [];
+    for await (const entry of this.metadataStore.iterateMetadata(range)) {
+      current.push(entry);
+    }
+
+    const report: SnapshotReport = { objects: 0, copied: 0, unchanged: 0, removed: 0, failed: [] };
+    // remove deleted objects first, their paths might be used as folders by new keys and vice versa
+    const currentKeys = new Set(current.map(([key]) => key));
+    for (const key of previousObjects.keys()) {
+      if (!currentKeys.has(key)) {
+        await this.removeSnapshotObject(dest, key);
+        report.removed++;
+      }
+    }
+
+    const manifest: SnapshotManifest = {
+      format: SNAPSHOT_FORMAT,
+      version: SNAPSHOT_VERSION,
+      createdAt: Date.now(),
+      prefix,
+      objects: [],
+    };
+    for (const [key, metadata] of current) {
+      try {
+        const { object, copied } = await this.exportSnapshotObject(dest, key, metadata, previousObjects.get(key));
+        if (candidates.has(key)) {
+          object.candidateCreatedAt = candidates.get(key);
+        }
+        manifest.objects.push(object);
+        if (copied) {
+          report.copied++;
+        } else {
+          report.unchanged++;
+        }
+      } catch (e) {
+        afLogger.error(`Could not export ${key}: ${e}`);
+        report.failed.push({ key, error: e.message ?? `${e}` });
+        // snapshot should not contain content which is not described by the manifest
+        await this.removeSnapshotObject(dest, key).catch(() => {});
+      }
+    }
+    report.objects = manifest.objects.length;
+    await writeSnapshotManifest(dest, manifest);
+    return report;
+  }
+
+  async exportSnapshotObject(
+    dest: string,
+    key: string,
+    metadata: ObjectMetadata,
+    previous: SnapshotObject | undefined,
+  ): Promise<{ object: SnapshotObject; copied: boolean }> {
+    const { encryption, reencryption, ...properties } = metadata;
+    const filePath = getSnapshotObjectPath(dest, key);
+    if (previous && metadata.sha256 && previous.sha256 === metadata.sha256) {
+      // file in the snapshot might be changed or damaged since the previous export, then it is copied again
+      const snapshotSha256 = await hashSnapshotObject(dest, key).catch((): undefined => undefined);
+      if (snapshotSha256 === metadata.sha256) {
+        return { object: { key, ...properties, sha256: metadata.sha256 }, copied: false };
+      }
+    }
+
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    // temp file is outside of objects folder, so it is never taken for an object
+    const tempPath = path.join(dest, `.${crypto.randomUUID()}.tmp`);
+    const sha256 = crypto.createHash("sha256");
+    try {
+      await pipeline(
+        this.createObjectReadStream(key, metadata),
+        new Transform({
+          transform(chunk, encoding, callback) {
+            sha256.update(chunk);
+            callback(null, chunk);
+          },
+        }),
+        createWriteStream(tempPath, { flags: "wx" }),
+      );
+      const actualSha256 = sha256.digest("hex");
+      if (metadata.sha256 && metadata.sha256 !== actualSha256) {
+        throw new Error(`Checksum of ${key} does not match the stored one, the file might be corrupted`);
+      }
+      await fs.rename(tempPath, filePath);
+      return { object: { key, ...properties, sha256: actualSha256 }, copied: true };
+    } finally {
+      await fs.rm(tempPath, { force: true });
+    }
+  }
+
+  async removeSnapshotObject(dest: string, key: string): Promise<void> {
+    const filePath = getSnapshotObjectPath(dest, key);
+    await fs.rm(filePath, { force: true });
+    await removeEmptySnapshotFolders(dest, filePath);
+  }
+
+  /**
+   * Imports objects from the snapshot folder created by exportSnapshot, e.g. on another instance.
+   * Objects are stored the same way as uploads (encrypted if encryption is enabled, counted in quotas, checked by
+   * beforeUpload hook) and their content is verified against checksums from the manifest. Then creation time and
+   * deletion state are restored. Objects which already have the same content (checked by hashing stored files) are skipped,
+   * only their metadata is updated.
+   * @param src - snapshot folder
+   */
+  async importSnapshot(src: string, options: ImportSnapshotOptions = {}): Promise<SnapshotReport> {
+    const manifest = await readSnapshotManifest(src);
+    if (!manifest) {
+      throw new Error(`${src} does not contain a storage snapshot`);
+    }
+    const prefix = options.prefix ?? "";
+    const report: SnapshotReport = { objects: 0, copied: 0, unchanged: 0, removed: 0, failed: [] };
+    for (const object of manifest.objects) {
+      if (!object.key.startsWith(prefix)) {
+        continue;
+      }
+      report.objects++;
+      try {
+        if (await this.importSnapshotObject(src, object, options.overwrite)) {
+          report.copied++;
+        } else {
+          report.unchanged++;
+        }
+      } catch (e) {
+        afLogger.error(`Could not import ${object.key}: ${e}`);
+        report.failed.push({ key: object.key, error: e.message ?? `${e}` });
+      }
+    }
+    return report;
+  }
+
+  /**
+   * @returns false if the object already had the same content
+   */
+  async importSnapshotObject(src: string, object: SnapshotObject, overwrite = false): Promise<boolean> {
+    const { key, candidateCreatedAt, ...metadata } = object;
+    const existing = await this.headObject(key);
+    // stored checksum is not trusted, file might be changed or damaged since it was calculated
+    const actual = existing && await this.hashObject(key, existing, !metadata.md5 && this.options.storeMd5);
+    const copied = actual?.sha256 !== metadata.sha256;
+    if (!copied) {
+      await this.metadataStore.putMetadata(key, {
+        ...metadata,
+        md5: metadata.md5 ?? actual.md5,
+        encryption: existing.encryption,
+        reencryption: existing.reencryption,
+      });
+    } else {
+      if (existing) {
+        if (!overwrite) {
+          throw new Error(`File ${key} already exists`);
+        }
+        await this.deleteObject(key);
+      }
+      const writer = await this.createWriteStream(
+        key,
+        metadata.contentType,
+        { sha256: metadata.sha256, md5: metadata.md5 },
+        { originalFilename: metadata.originalFilename, userMetadata: metadata.userMetadata, tags: metadata.tags },
+      );
+      await pipeline(createReadStream(getSnapshotObjectPath(src, key)), writer);
+      // keep creation time of the original, retention of deletion candidates is counted from it
+      const stored = await this.readMetadata(key);
+      await this.metadataStore.putMetadata(key, { ...stored, createdAt: metadata.createdAt });
+    }
+    if (candidateCreatedAt !== undefined) {
+      await this.metadataStore.putCandidate(key, candidateCreatedAt);
+    } else {
+      await this.metadataStore.delCandidate(key);
+    }
+    return copied;
+  }
+
+  /**
+   * Checks that every object of the snapshot is present and its content matches the checksum from the manifest.
+   * @param src - snapshot folder
    */
-  async createWriteStream(key: string, contentType: string): Promise<any> {
-    throw new Error("method is not implemented yet");
+  async verifySnapshot(src: string): Promise<VerifyReport> {
+    const manifest = await readSnapshotManifest(src);
+    if (!manifest) {
+      throw new Error(`${src} does not contain a storage snapshot`);
+    }
+    const report: VerifyReport = { checked: 0, ok: 0, failed: [] };
+    for (const object of manifest.objects) {
+      report.checked++;
+      let actualSha256: string;
+      try {
+        actualSha256 = await hashSnapshotObject(src, object.key);
+      } catch (e) {
+        report.failed.push({ key: object.key, status: "missing", expectedSha256: object.sha256 });
+        continue;
+      }
+      if (actualSha256 === object.sha256) {
+        report.ok++;
+      } else {
+        report.failed.push({ key: object.key, status: "mismatch", expectedSha256: object.sha256, actualSha256 });
+      }
+    }
+    return report;
   }
 
 }
@@ -0,0 +1,24 @@
+import { KeyRange } from "./types.js";
+
+/**
+ * Compares keys in byte order of their UTF-8 representation, which is the order used by metadata stores.
+ */
+export function compareKeys(a: string, b: string): number {
+  return Buffer.compare(Buffer.from(a), Buffer.from(b));
+}
+
+/**
+ * Returns range which includes all keys starting with prefix.
+ */
+export function prefixRange(prefix: string): KeyRange {
+  if (!prefix) {
+    return {};
+  }
+  // U+10FFFF has the largest UTF-8 encoding, so it sorts after any key which continues the prefix
+  return { gte: prefix, lt: `${prefix}\u{10FFFF}` };
+}
+
+export function keyInRange(key: string, range: KeyRange): boolean {
+  return (range.gte === undefined || compareKeys(key, range.gte) >= 0)
+    && (range.lt === undefined || compareKeys(key, range.lt) < 0);
+}
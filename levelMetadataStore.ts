@@ -0,0 +1,197 @@
+import fs from "fs/promises";
+import path from "path";
+import { Level } from "level";
+import { KeyRange, MetadataStore, ObjectMetadata } from "./types.js";
+
+/**
+ * Default store, keeps metadata, deletion candidates, usage counters, used nonces and URL revocations in LevelDB databases.
+ * LevelDB takes exclusive lock, so folder can't be shared by several processes.
+ */
+export class LevelMetadataStore implements MetadataStore {
+  private metadataDb: Level;
+  private candidatesForDeletionDb: Level;
+  private usageDb: Level;
+  private noncesDb: Level;
+  private urlRevocationsDb: Level;
+  // counter and nonce updates are read-modify-write, so they are applied one by one
+  private updateQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(folder: string) {
+    this.metadataDb = new Level(path.join(folder, 'metadata'));
+    this.candidatesForDeletionDb = new Level(path.join(folder, 'candidatesForDeletion'));
+    this.usageDb = new Level(path.join(folder, 'usage'));
+    this.noncesDb = new Level(path.join(folder, 'nonces'));
+    this.urlRevocationsDb = new Level(path.join(folder, 'urlRevocations'));
+  }
+
+  async open(): Promise<void> {
+    await this.metadataDb.open();
+    await this.candidatesForDeletionDb.open();
+    await this.usageDb.open();
+    await this.noncesDb.open();
+    await this.urlRevocationsDb.open();
+  }
+
+  async close(): Promise<void> {
+    await this.metadataDb.close();
+    await this.candidatesForDeletionDb.close();
+    await this.usageDb.close();
+    await this.noncesDb.close();
+    await this.urlRevocationsDb.close();
+  }
+
+  async getMetadata(key: string): Promise<ObjectMetadata | undefined> {
+    const metadata = await this.metadataDb.get(key);
+    return metadata ? JSON.parse(metadata) : undefined;
+  }
+
+  async putMetadata(key: string, metadata: ObjectMetadata): Promise<void> {
+    await this.metadataDb.put(key, JSON.stringify(metadata));
+  }
+
+  async delMetadata(key: string): Promise<void> {
+    await this.metadataDb.del(key);
+  }
+
+  async *iterateMetadata(range: KeyRange = {}): AsyncIterable<[string, ObjectMetadata]> {
+    for await (const [key, metadata] of this.metadataDb.iterator(range)) {
+      yield [key, JSON.parse(metadata)];
+    }
+  }
+
+  async getCandidate(key: string): Promise<number | undefined> {
+    const createdAt = await this.candidatesForDeletionDb.get(key);
+    return createdAt === undefined ? undefined : +createdAt;
+  }
+
+  async putCandidate(key: string, createdAt: number): Promise<void> {
+    await this.candidatesForDeletionDb.put(key, createdAt.toString());
+  }
+
+  async delCandidate(key: string): Promise<void> {
+    await this.candidatesForDeletionDb.del(key);
+  }
+
+  async *iterateCandidates(range: KeyRange = {}): AsyncIterable<[string, number]> {
+    for await (const [key, createdAt] of this.candidatesForDeletionDb.iterator(range)) {
+      yield [key, +createdAt];
+    }
+  }
+
+  private serializeUpdate<T>(update: () => Promise<T>): Promise<T> {
+    const result = this.updateQueue.then(update);
+    this.updateQueue = result.catch(() => {});
+    return result;
+  }
+
+  async getUsageCounter(prefix: string): Promise<number | undefined> {
+    const bytes = await this.usageDb.get(prefix);
+    return bytes === undefined ? undefined : +bytes;
+  }
+
+  async initUsageCounter(prefix: string, bytes: number): Promise<void> {
+    await this.serializeUpdate(async () => {
+      if (await this.usageDb.get(prefix) === undefined) {
+        await this.usageDb.put(prefix, bytes.toString());
+      }
+    });
+  }
+
+  async addToUsageCounter(prefix: string, delta: number): Promise<void> {
+    await this.serializeUpdate(async () => {
+      const bytes = await this.usageDb.get(prefix);
+      if (bytes !== undefined) {
+        await this.usageDb.put(prefix, (+bytes + delta).toString());
+      }
+    });
+  }
+
+  async resetUsageCounters(): Promise<void> {
+    await this.serializeUpdate(() => this.usageDb.clear());
+  }
+
+  async consumeNonce(nonce: string, expiresAt: number): Promise<boolean> {
+    return this.serializeUpdate(async () => {
+      if (await this.noncesDb.get(nonce) !== undefined) {
+        return false;
+      }
+      await this.noncesDb.put(nonce, expiresAt.toString());
+      return true;
+    });
+  }
+
+  async purgeExpiredNonces(now: number): Promise<void> {
+    for await (const [nonce, expiresAt] of this.noncesDb.iterator()) {
+      if (+expiresAt < now) {
+        await this.noncesDb.del(nonce);
+      }
+    }
+  }
+
+  async getUrlRevocation(key: string): Promise<number | undefined> {
+    const revokedAt = await this.urlRevocationsDb.get(key);
+    return revokedAt === undefined ? undefined : +revokedAt;
+  }
+
+  async putUrlRevocation(key: string, revokedAt: number): Promise<void> {
+    await this.urlRevocationsDb.put(key, revokedAt.toString());
+  }
+}
+
+// marker file which is written to the instance folder after Level data was copied to another store
+const MIGRATED_MARKER = 'level-migrated';
+
+/**
+ * Opens Level database only if it exists, so migration does not leave empty databases behind.
+ */
+async function openExistingLevel(dbPath: string): Promise<Level | undefined> {
+  try {
+    await fs.access(dbPath);
+  } catch (e) {
+    return undefined;
+  }
+  const db = new Level(dbPath, { createIfMissing: false });
+  await db.open();
+  return db;
+}
+
+/**
+ * Copies metadata and deletion candidates from Level databases (used by previous versions of adapter)
+ * into another store. Runs only once per folder, does nothing if there are no Level databases.
+ * @returns number of copied records, or 0 if migration was already done
+ */
+export async function migrateLevelMetadata(folder: string, target: MetadataStore): Promise<number> {
+  const markerPath = path.join(folder, MIGRATED_MARKER);
+  try {
+    await fs.access(markerPath);
+    return 0;
+  } catch (e) {
+    // not migrated yet
+  }
+  // only databases with records to copy are opened, usage, nonces and revocations are not migrated
+  const metadataDb = await openExistingLevel(path.join(folder, 'metadata'));
+  if (!metadataDb) {
+    // nothing to migrate, e.g. fresh install
+    return 0;
+  }
+  let candidatesDb: Level | undefined;
+  let copied = 0;
+  try {
+    for await (const [key, metadata] of metadataDb.iterator()) {
+      await target.putMetadata(key, JSON.parse(metadata));
+      copied++;
+    }
+    candidatesDb = await openExistingLevel(path.join(folder, 'candidatesForDeletion'));
+    if (candidatesDb) {
+      for await (const [key, createdAt] of candidatesDb.iterator()) {
+        await target.putCandidate(key, +createdAt);
+        copied++;
+      }
+    }
+  } finally {
+    await metadataDb.close();
+    await candidatesDb?.close();
+  }
+  await fs.writeFile(markerPath, new Date().toISOString());
+  return copied;
+}
@@ -0,0 +1,77 @@
+/**
+ * One request to adapter routes, written when response is finished or connection is closed.
+ */
+export interface AccessLogEntry {
+  time: string; // ISO time when request was received
+  method: string;
+  key: string;
+  status: number; // 0 if connection was closed before response was sent
+  bytesIn: number; // bytes of uploaded content
+  bytesOut: number; // bytes of file content sent to the client
+  duration: number; // milliseconds
+  ip: string;
+  urlId?: string; // hash of the URL signature, same for all requests by one presigned URL
+  kid?: string; // id of the signing key from the URL
+  expires?: number; // expiration of the URL, unix timestamp in seconds
+}
+
+export const PROMETHEUS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+/**
+ * Counters since the adapter was created, they are kept in memory of the process.
+ */
+export interface StorageMetrics {
+  requests: Map<string, number>; // by method and status
+  rateLimited: Map<string, number>; // by limit which rejected the request: "ip" or "url"
+  errors: Map<string, number>; // by source: "request" (5xx responses) or "sweeper"
+  bytesIn: number;
+  bytesOut: number;
+  sweeperDeletions: number;
+}
+
+export function createStorageMetrics(): StorageMetrics {
+  return {
+    requests: new Map(),
+    rateLimited: new Map(),
+    errors: new Map(),
+    bytesIn: 0,
+    bytesOut: 0,
+    sweeperDeletions: 0,
+  };
+}
+
+/**
+ * Increments counter with labels, labels are stored as Prometheus label set e.g. method="GET",status="200".
+ */
+export function incrementMetric(counters: Map<string, number>, labels: Record<string, string | number>, value = 1): void {
+  const labelSet = Object.entries(labels)
+    .map(([name, labelValue]) => `${name}="${labelValue.toString().replace(/[\\"]/g, "\\$&").replace(/\n/g, "\\n")}"`)
+    .join(",");
+  counters.set(labelSet, (counters.get(labelSet) ?? 0) + value);
+}
+
+function formatCounter(name: string, help: string, values: Map<string, number> | number): string[] {
+  const lines = [`# HELP ${name} ${help}`, `# TYPE ${name} counter`];
+  if (typeof values === "number") {
+    lines.push(`${name} ${values}`);
+  } else {
+    for (const [labelSet, value] of values) {
+      lines.push(`${name}{${labelSet}} ${value}`);
+    }
+  }
+  return lines;
+}
+
+/**
+ * Formats metrics in Prometheus text exposition format.
+ */
+export function formatPrometheusMetrics(metrics: StorageMetrics): string {
+  return [
+    ...formatCounter("adminforth_storage_requests_total", "Requests to adapter routes by method and status.", metrics.requests),
+    ...formatCounter("adminforth_storage_rate_limited_total", "Requests rejected with 429 by rate limit.", metrics.rateLimited),
+    ...formatCounter("adminforth_storage_errors_total", "Errors of requests (5xx responses) and of the deletion sweeper.", metrics.errors),
+    ...formatCounter("adminforth_storage_received_bytes_total", "Bytes of uploaded content.", metrics.bytesIn),
+    ...formatCounter("adminforth_storage_sent_bytes_total", "Bytes of file content sent to clients.", metrics.bytesOut),
+    ...formatCounter("adminforth_storage_sweeper_deletions_total", "Objects removed by the deletion sweeper.", metrics.sweeperDeletions),
+  ].join("\n") + "\n";
+}
@@ -0,0 +1,74 @@
+import { Transform } from "stream";
+import { UploadPolicyError } from "./uploadPolicy.js";
+
+export interface QuotaRule {
+  prefix: string; // rule applies to keys starting with prefix, "" for all keys
+  maxBytes: number; // maximum total size of objects under the prefix
+}
+
+/**
+ * Limits of total size of stored objects. Objects marked for deletion are counted until the sweeper removes them.
+ * All matching rules are checked, so e.g. tenant limit and global limit work together.
+ * Uploads are checked and committed one by one within a process. Several processes which share the folder
+ * keep usage counters in the shared metadata store, but concurrent uploads from them can exceed the limit together.
+ */
+export interface QuotaOptions {
+  maxBytes?: number; // limit for all objects of the adapter
+  prefixes?: QuotaRule[]; // limits for keys starting with prefix e.g. { prefix: "tenants/42/", maxBytes: 10 * 1024 ** 3 }
+  resolve?: (key: string) => QuotaRule | undefined | Promise<QuotaRule | undefined>; // dynamic limit for the key, e.g. per tenant limit from database
+}
+
+export function validateQuotaOptions(quota: QuotaOptions): void {
+  const rules = [...(quota.maxBytes !== undefined ? [{ prefix: "", maxBytes: quota.maxBytes }] : []), ...(quota.prefixes ?? [])];
+  for (const rule of rules) {
+    if (!Number.isInteger(rule.maxBytes) || rule.maxBytes < 0) {
+      throw new Error(`Quota maxBytes for prefix "${rule.prefix}" should be a non-negative integer`);
+    }
+  }
+}
+
+/**
+ * Returns all quota rules which apply to the key.
+ */
+export async function resolveQuotaRules(quota: QuotaOptions | undefined, key: string): Promise<QuotaRule[]> {
+  if (!quota) {
+    return [];
+  }
+  const rules: QuotaRule[] = [];
+  if (quota.maxBytes !== undefined) {
+    rules.push({ prefix: "", maxBytes: quota.maxBytes });
+  }
+  rules.push(...(quota.prefixes ?? []).filter((rule) => key.startsWith(rule.prefix)));
+  const resolved = await quota.resolve?.(key);
+  if (resolved) {
+    // usage is counted by prefix, so rule for other prefix would count other objects
+    if (!key.startsWith(resolved.prefix)) {
+      throw new Error(`Quota resolver returned prefix "${resolved.prefix}" which does not match key ${key}`);
+    }
+    rules.push(resolved);
+  }
+  // usage of every prefix should be counted once, the strictest limit wins
+  const byPrefix = new Map<string, QuotaRule>();
+  for (const rule of rules) {
+    if (!byPrefix.has(rule.prefix) || rule.maxBytes < byPrefix.get(rule.prefix).maxBytes) {
+      byPrefix.set(rule.prefix, rule);
+    }
+  }
+  return [...byPrefix.values()];
+}
+
+/**
+ * Creates pass-through stream which fails with 507 error as soon as body exceeds remaining quota.
+ */
+export function createQuotaLimiter(remainingBytes: number): Transform {
+  let size = 0;
+  return new Transform({
+    transform(chunk, _encoding, callback) {
+      size += chunk.length;
+      if (size > remainingBytes) {
+        return callback(new UploadPolicyError(507, "Storage quota exceeded"));
+      }
+      callback(null, chunk);
+    },
+  });
+}
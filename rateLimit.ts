@@ -0,0 +1,136 @@
+import type { IncomingMessage } from "http";
+import { Transform } from "stream";
+import { setTimeout as sleep } from "timers/promises";
+
+export interface RateLimitRule {
+  requests: number; // maximum number of requests in the interval
+  interval: number; // seconds
+}
+
+/**
+ * Limits of requests to adapter routes, excess requests are rejected with 429 and Retry-After header.
+ * Counters are kept in memory of the process, so every process of the app has its own limits.
+ */
+export interface RateLimitOptions {
+  perIp?: RateLimitRule; // requests from one client IP address
+  perUrl?: RateLimitRule; // requests to one presigned URL, e.g. leaked link which is shared publicly
+  bandwidthPerIp?: number; // bytes per second of downloads to one IP address, shared by its concurrent downloads
+  bandwidthPerUrl?: number; // bytes per second of downloads by one presigned URL
+  trustProxy?: boolean; // take client IP from the last X-Forwarded-For address, enable only behind reverse proxy, default false
+}
+
+// counters of clients which were not seen for a while are pruned once there are more of them
+const MAX_TRACKED_CLIENTS = 10000;
+
+// downloads are throttled by slices, so data is sent evenly instead of bursts of big chunks
+const THROTTLE_SLICE_SIZE = 16 * 1024;
+
+export function validateRateLimitOptions(options: RateLimitOptions): void {
+  for (const name of ["perIp", "perUrl"] as const) {
+    const rule = options[name];
+    if (rule && (!Number.isInteger(rule.requests) || rule.requests < 1 || !(rule.interval > 0))) {
+      throw new Error(`Rate limit ${name} should have positive integer requests and positive interval`);
+    }
+  }
+  for (const name of ["bandwidthPerIp", "bandwidthPerUrl"] as const) {
+    const value = options[name];
+    if (value !== undefined && !(value > 0)) {
+      throw new Error(`Rate limit ${name} should be a positive number of bytes per second`);
+    }
+  }
+}
+
+export function getClientIp(req: IncomingMessage, trustProxy = false): string {
+  const forwardedFor = req.headers["x-forwarded-for"];
+  if (trustProxy && typeof forwardedFor === "string") {
+    // proxy appends address of the client which connected to it, addresses before it are set by the client
+    const last = forwardedFor.split(",").pop().trim();
+    if (last) {
+      return last;
+    }
+  }
+  return req.socket?.remoteAddress ?? "";
+}
+
+/**
+ * Counts requests of every client in fixed windows.
+ * take() returns 0 if request is allowed, otherwise seconds until the client can retry.
+ */
+export function createRequestLimiter(rule: RateLimitRule): { take(client: string): number } {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+  return {
+    take(client: string): number {
+      const now = Date.now();
+      let window = windows.get(client);
+      if (!window || window.resetAt <= now) {
+        if (windows.size >= MAX_TRACKED_CLIENTS) {
+          for (const [id, { resetAt }] of windows) {
+            if (resetAt <= now) {
+              windows.delete(id);
+            }
+          }
+        }
+        window = { count: 0, resetAt: now + rule.interval * 1000 };
+        windows.set(client, window);
+      }
+      if (window.count >= rule.requests) {
+        return Math.ceil((window.resetAt - now) / 1000);
+      }
+      window.count++;
+      return 0;
+    },
+  };
+}
+
+/**
+ * Shares bandwidth of every client between its downloads.
+ * reserve() returns milliseconds to wait before the bytes can be sent.
+ */
+export function createBandwidthLimiter(bytesPerSecond: number): { reserve(client: string, bytes: number): number } {
+  // time when the next byte of the client can be sent
+  const schedule = new Map<string, number>();
+  return {
+    reserve(client: string, bytes: number): number {
+      const now = Date.now();
+      if (!schedule.has(client) && schedule.size >= MAX_TRACKED_CLIENTS) {
+        for (const [id, next] of schedule) {
+          if (next <= now) {
+            schedule.delete(id);
+          }
+        }
+      }
+      const start = Math.max(now, schedule.get(client) ?? now);
+      schedule.set(client, start + bytes * 1000 / bytesPerSecond);
+      return start - now;
+    },
+  };
+}
+
+/**
+ * Creates pass-through stream which counts bytes and delays data to fit into bandwidth limits.
+ * @param reservations - functions which reserve bytes and return milliseconds to wait, stream only counts bytes if empty
+ */
+export function createThrottle(reservations: ((bytes: number) => number)[], onBytes: (bytes: number) => void): Transform {
+  return new Transform({
+    transform(chunk: Buffer, encoding, callback) {
+      if (!reservations.length) {
+        onBytes(chunk.length);
+        return callback(null, chunk);
+      }
+      (async () => {
+        for (let offset = 0; offset < chunk.length; offset += THROTTLE_SLICE_SIZE) {
+          const slice = chunk.subarray(offset, offset + THROTTLE_SLICE_SIZE);
+          const delay = Math.max(...reservations.map((reserve) => reserve(slice.length)));
+          if (delay > 0) {
+            await sleep(delay);
+          }
+          if (this.destroyed) {
+            return;
+          }
+          this.push(slice);
+          onBytes(slice.length);
+        }
+      })().then(() => callback(), callback);
+    },
+  });
+}
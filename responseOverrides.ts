@@ -0,0 +1,88 @@
+/**
+ * Headers of download response which are set by presigned URL instead of stored metadata (like S3 response-* parameters).
+ * Overrides are passed in query parameters and covered by the URL signature, so client can't change them.
+ */
+export interface ResponseOverrides {
+  responseContentDisposition?: "inline" | "attachment"; // how browser should handle the file
+  responseFilename?: string; // file name for Content-Disposition, default is originalFilename stored on upload
+  responseContentType?: string; // Content-Type instead of the stored one
+  responseCacheControl?: string; // Cache-Control instead of the configured one
+}
+
+// order matters: params are signed as JSON, so they should always be serialized in the same order
+const RESPONSE_PARAMS = {
+  responseContentDisposition: "response-content-disposition",
+  responseFilename: "response-filename",
+  responseContentType: "response-content-type",
+  responseCacheControl: "response-cache-control",
+} as const;
+
+export function responseOverridesToParams(overrides: ResponseOverrides = {}): Record<string, string> {
+  const params: Record<string, string> = {};
+  for (const [name, param] of Object.entries(RESPONSE_PARAMS)) {
+    const value = overrides[name as keyof ResponseOverrides];
+    if (value !== undefined) {
+      params[param] = value;
+    }
+  }
+  return params;
+}
+
+/**
+ * Picks override parameters from request query in the same order as they were signed.
+ */
+export function responseParamsFromQuery(query: Record<string, any> | URLSearchParams): Record<string, string> {
+  const params: Record<string, string> = {};
+  for (const param of Object.values(RESPONSE_PARAMS)) {
+    const value = query instanceof URLSearchParams ? query.get(param) : query[param];
+    if (typeof value === "string") {
+      params[param] = value;
+    }
+  }
+  return params;
+}
+
+export function responseOverridesFromParams(params: Record<string, string>): ResponseOverrides {
+  const overrides: ResponseOverrides = {};
+  for (const [name, param] of Object.entries(RESPONSE_PARAMS)) {
+    if (params[param] !== undefined) {
+      (overrides as Record<string, string>)[name] = params[param];
+    }
+  }
+  return overrides;
+}
+
+export function validateResponseOverrides(overrides: ResponseOverrides): void {
+  const { responseContentDisposition, responseContentType, responseCacheControl, responseFilename } = overrides;
+  if (responseContentDisposition !== undefined && !["inline", "attachment"].includes(responseContentDisposition)) {
+    throw new Error("responseContentDisposition should be \"inline\" or \"attachment\"");
+  }
+  if (responseContentType !== undefined && !/^[\w.+-]+\/[\w.+-]+(\s*;[\x20-\x7e]*)?$/.test(responseContentType)) {
+    throw new Error(`Invalid responseContentType ${responseContentType}`);
+  }
+  if (responseCacheControl !== undefined && !/^[\x20-\x7e]+$/.test(responseCacheControl)) {
+    throw new Error(`Invalid responseCacheControl ${responseCacheControl}`);
+  }
+  if (responseFilename !== undefined) {
+    validateFilename(responseFilename);
+  }
+}
+
+export function validateFilename(filename: string): void {
+  if (!filename || filename.length > 255 || /[\x00-\x1f\x7f]/.test(filename)) {
+    throw new Error("Filename should be 1-255 characters long and should not contain control characters");
+  }
+}
+
+/**
+ * Builds Content-Disposition header with ASCII fallback filename and RFC 5987 encoded filename* for other characters.
+ */
+export function formatContentDisposition(type: "inline" | "attachment", filename?: string): string {
+  if (!filename) {
+    return type;
+  }
+  const fallback = filename.replace(/[^\x20-\x7e]|["\\]/g, "_");
+  // encodeURIComponent leaves some characters which are not allowed in RFC 5987 value
+  const encoded = encodeURIComponent(filename).replace(/['()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
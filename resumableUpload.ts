@@ -0,0 +1,50 @@
+import { UploadMetadata } from "./types.js";
+
+/**
+ * Resumable uploads follow tus 1.0.0 core protocol with creation, termination and expiration extensions
+ * (https://tus.io/protocols/resumable-upload), so existing clients like tus-js-client or Uppy can be used.
+ * Session is created by POST to the presigned upload URL, then chunks are sent by PATCH to the session URL.
+ */
+export const TUS_VERSION = "1.0.0";
+export const TUS_EXTENSIONS = "creation,termination,expiration";
+export const TUS_CHUNK_CONTENT_TYPE = "application/offset+octet-stream";
+
+// part file of the session has the same name with .part extension
+export interface ResumableUploadSession {
+  uploadId: string;
+  key: string;
+  contentType: string;
+  length: number; // total size of the upload in bytes, declared by Upload-Length header
+  createdAt: number; // unix timestamp in milliseconds
+  expected: { sha256?: string; md5?: string }; // checksums from upload policy, checked when upload is complete
+  metadata: UploadMetadata;
+}
+
+export function isValidUploadId(uploadId: unknown): uploadId is string {
+  return typeof uploadId === "string" && /^[0-9a-f]{32}$/.test(uploadId);
+}
+
+/**
+ * Parses Upload-Metadata header: comma separated pairs of key and base64 encoded value, e.g. "filetype aW1hZ2UvcG5n".
+ */
+export function parseTusMetadata(header: string | undefined): Record<string, string> {
+  const metadata: Record<string, string> = {};
+  for (const pair of (header ?? "").split(",")) {
+    const [name, value] = pair.trim().split(" ");
+    if (name) {
+      metadata[name] = value ? Buffer.from(value, "base64").toString("utf8") : "";
+    }
+  }
+  return metadata;
+}
+
+/**
+ * Parses non-negative integer header like Upload-Length or Upload-Offset, returns undefined if it is missing or malformed.
+ */
+export function parseTusNumber(header: string | undefined): number | undefined {
+  if (typeof header !== "string" || !/^\d+$/.test(header)) {
+    return undefined;
+  }
+  const value = parseInt(header, 10);
+  return Number.isSafeInteger(value) ? value : undefined;
+}
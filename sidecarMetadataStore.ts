@@ -0,0 +1,358 @@
+import type { Stats } from "fs";
+import fs from "fs/promises";
+import path from "path";
+import crypto from "crypto";
+import { compareKeys, keyInRange } from "./keyRange.js";
+import { KeyRange, MetadataStore, ObjectMetadata } from "./types.js";
+
+const METADATA_SUFFIX = ".afmeta.json";
+const CANDIDATE_SUFFIX = ".afdelete.json";
+// lock which is not released for this long is considered left by crashed process
+const STALE_LOCK_AGE = 30 * 1000;
+const LOCK_TIMEOUT = 10 * 1000;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isObjectMetadata(value: unknown): value is ObjectMetadata {
+  return isRecord(value)
+    && typeof value.contentType === "string"
+    && typeof value.createdAt === "number"
+    && typeof value.size === "number";
+}
+
+function isTimestamp(value: unknown): value is number {
+  return typeof value === "number";
+}
+
+function isUsageCounter(value: unknown): value is { prefix: string; bytes: number } {
+  return isRecord(value) && typeof value.bytes === "number";
+}
+
+function isUrlRevocation(value: unknown): value is { key: string; revokedAt: number } {
+  return isRecord(value) && typeof value.revokedAt === "number";
+}
+
+/**
+ * Keeps metadata in JSON files next to each object: "<key>.afmeta.json" and "<key>.afdelete.json" for deletion candidates.
+ * Every write is atomic rename of a temp file, so it does not need locks and the folder can be shared
+ * by several processes (PM2 cluster, containers with shared volume).
+ * Iteration walks the folder, so it is slower than database backed stores on large folders.
+ */
+export class SidecarMetadataStore implements MetadataStore {
+  private rootFolder: string;
+  private excludedFolders: string[];
+  private stateFolder: string | undefined;
+
+  /**
+   * @param rootFolder - folder with objects
+   * @param excludedFolders - absolute paths of folders which should be skipped during iteration (e.g. adapter internal folder)
+   * @param stateFolder - folder for usage counters, used nonces and URL revocations, should be outside of rootFolder or excluded.
+   *   If not set, usage counters are not kept and single-use URLs and revocations are not supported.
+   */
+  constructor(rootFolder: string, excludedFolders: string[] = [], stateFolder?: string) {
+    this.rootFolder = path.resolve(rootFolder);
+    this.excludedFolders = excludedFolders.map((folder) => path.resolve(folder));
+    this.stateFolder = stateFolder && path.resolve(stateFolder);
+  }
+
+  async open(): Promise<void> {}
+
+  async close(): Promise<void> {}
+
+  isReservedKey(key: string): boolean {
+    // sidecar files and their temp files which exist while sidecar is written
+    return /\.af(meta|delete)\.json(\.[^/]+\.tmp)?$/.test(key);
+  }
+
+  /**
+   * Throws if the key points outside of the root folder (e.g. "../secret"), so sidecar is never written elsewhere.
+   */
+  private sidecarPath(key: string, suffix: string): string {
+    const filePath = path.join(this.rootFolder, ...key.split("/")) + suffix;
+    if (!filePath.startsWith(this.rootFolder + path.sep)) {
+      throw new Error(`Invalid key ${key}`);
+    }
+    return filePath;
+  }
+
+  /**
+   * @returns undefined if file does not exist, throws if its content is not valid
+   */
+  private async readJson<T>(filePath: string, isValid: (value: unknown) => value is T): Promise<T | undefined> {
+    let value: unknown;
+    try {
+      value = JSON.parse(await fs.readFile(filePath, "utf-8"));
+    } catch (e) {
+      if (e.code === "ENOENT") {
+        return undefined;
+      }
+      throw e;
+    }
+    if (!isValid(value)) {
+      throw new Error(`Invalid content of ${filePath}`);
+    }
+    return value;
+  }
+
+  private async writeJson(filePath: string, value: unknown): Promise<void> {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.${crypto.randomUUID()}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(value));
+    try {
+      await fs.rename(tempPath, filePath);
+    } catch (e) {
+      await fs.unlink(tempPath).catch(() => {});
+      throw e;
+    }
+  }
+
+  private async remove(filePath: string): Promise<void> {
+    try {
+      await fs.unlink(filePath);
+    } catch (e) {
+      if (e.code !== "ENOENT") {
+        throw e;
+      }
+    }
+  }
+
+  /**
+   * Walks the folder and returns sorted keys which have sidecar file with given suffix.
+   */
+  private async listKeys(suffix: string, range: KeyRange): Promise<string[]> {
+    const keys: string[] = [];
+    const walk = async (folder: string, prefix: string) => {
+      let entries;
+      try {
+        entries = await fs.readdir(folder, { withFileTypes: true });
+      } catch (e) {
+        if (e.code === "ENOENT") {
+          return;
+        }
+        throw e;
+      }
+      for (const entry of entries) {
+        const entryPath = path.join(folder, entry.name);
+        if (entry.isDirectory()) {
+          if (!this.excludedFolders.includes(entryPath)) {
+            await walk(entryPath, `${prefix}${entry.name}/`);
+          }
+        } else if (entry.name.endsWith(suffix)) {
+          const key = `${prefix}${entry.name.slice(0, -suffix.length)}`;
+          if (keyInRange(key, range)) {
+            keys.push(key);
+          }
+        }
+      }
+    };
+    await walk(this.rootFolder, "");
+    return keys.sort(compareKeys);
+  }
+
+  async getMetadata(key: string): Promise<ObjectMetadata | undefined> {
+    return this.readJson(this.sidecarPath(key, METADATA_SUFFIX), isObjectMetadata);
+  }
+
+  async putMetadata(key: string, metadata: ObjectMetadata): Promise<void> {
+    await this.writeJson(this.sidecarPath(key, METADATA_SUFFIX), metadata);
+  }
+
+  async delMetadata(key: string): Promise<void> {
+    await this.remove(this.sidecarPath(key, METADATA_SUFFIX));
+  }
+
+  async *iterateMetadata(range: KeyRange = {}): AsyncIterable<[string, ObjectMetadata]> {
+    for (const key of await this.listKeys(METADATA_SUFFIX, range)) {
+      const metadata = await this.getMetadata(key);
+      // might be removed by another process while iterating
+      if (metadata) {
+        yield [key, metadata];
+      }
+    }
+  }
+
+  async getCandidate(key: string): Promise<number | undefined> {
+    return this.readJson(this.sidecarPath(key, CANDIDATE_SUFFIX), isTimestamp);
+  }
+
+  async putCandidate(key: string, createdAt: number): Promise<void> {
+    await this.writeJson(this.sidecarPath(key, CANDIDATE_SUFFIX), createdAt);
+  }
+
+  async delCandidate(key: string): Promise<void> {
+    await this.remove(this.sidecarPath(key, CANDIDATE_SUFFIX));
+  }
+
+  async *iterateCandidates(range: KeyRange = {}): AsyncIterable<[string, number]> {
+    for (const key of await this.listKeys(CANDIDATE_SUFFIX, range)) {
+      const createdAt = await this.getCandidate(key);
+      if (createdAt !== undefined) {
+        yield [key, createdAt];
+      }
+    }
+  }
+
+  /**
+   * Returns path of the file in the state folder, name is hashed since it might be too long or contain slashes.
+   */
+  private statePath(subfolder: string, name: string): string {
+    if (!this.stateFolder) {
+      throw new Error("Sidecar metadata store is created without state folder");
+    }
+    return path.join(this.stateFolder, subfolder, `${crypto.createHash("sha256").update(name).digest("hex")}.json`);
+  }
+
+  private counterPath(prefix: string): string {
+    return this.statePath("usage", prefix);
+  }
+
+  /**
+   * Runs update of counters under lock file shared by all processes, since update is read-modify-write.
+   */
+  private async withUsageLock(update: () => Promise<void>): Promise<void> {
+    const usageFolder = path.join(this.stateFolder, "usage");
+    await fs.mkdir(usageFolder, { recursive: true });
+    const lockPath = path.join(usageFolder, "usage.lock");
+    const startedAt = Date.now();
+    while (true) {
+      try {
+        await fs.writeFile(lockPath, process.pid.toString(), { flag: "wx" });
+        break;
+      } catch (e) {
+        if (e.code !== "EEXIST") {
+          throw e;
+        }
+      }
+      const stat = await fs.stat(lockPath).catch(() => undefined);
+      if (stat && Date.now() - stat.mtimeMs > STALE_LOCK_AGE) {
+        await this.takeOverStaleLock(lockPath, stat);
+      } else if (Date.now() - startedAt > LOCK_TIMEOUT) {
+        throw new Error(`Could not acquire usage lock ${lockPath}`);
+      } else {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      }
+    }
+    try {
+      await update();
+    } finally {
+      await this.remove(lockPath);
+    }
+  }
+
+  /**
+   * Moves away lock file left by crashed process. Rename is atomic, so when several processes find the same stale lock
+   * only one of them moves it, and none of them can remove lock which was acquired again in the meantime.
+   */
+  private async takeOverStaleLock(lockPath: string, stale: Stats): Promise<void> {
+    const takenPath = `${lockPath}.${process.pid}.${crypto.randomUUID()}.stale`;
+    try {
+      await fs.rename(lockPath, takenPath);
+    } catch (e) {
+      // another process took it over first
+      if (e.code === "ENOENT") {
+        return;
+      }
+      throw e;
+    }
+    const taken = await fs.stat(takenPath);
+    if (taken.ino !== stale.ino || taken.mtimeMs !== stale.mtimeMs) {
+      // stale lock was replaced by fresh one after stat, give it back to its owner
+      await fs.link(takenPath, lockPath).catch(() => {});
+    }
+    await this.remove(takenPath);
+  }
+
+  async getUsageCounter(prefix: string): Promise<number | undefined> {
+    if (!this.stateFolder) {
+      return undefined;
+    }
+    return (await this.readJson(this.counterPath(prefix), isUsageCounter))?.bytes;
+  }
+
+  async initUsageCounter(prefix: string, bytes: number): Promise<void> {
+    if (!this.stateFolder) {
+      return;
+    }
+    await this.withUsageLock(async () => {
+      if (await this.readJson(this.counterPath(prefix), isUsageCounter) === undefined) {
+        await this.writeJson(this.counterPath(prefix), { prefix, bytes });
+      }
+    });
+  }
+
+  async addToUsageCounter(prefix: string, delta: number): Promise<void> {
+    if (!this.stateFolder) {
+      return;
+    }
+    await this.withUsageLock(async () => {
+      const counter = await this.readJson(this.counterPath(prefix), isUsageCounter);
+      if (counter !== undefined) {
+        await this.writeJson(this.counterPath(prefix), { prefix, bytes: counter.bytes + delta });
+      }
+    });
+  }
+
+  async resetUsageCounters(): Promise<void> {
+    if (!this.stateFolder) {
+      return;
+    }
+    await this.withUsageLock(async () => {
+      const usageFolder = path.join(this.stateFolder, "usage");
+      for (const name of await fs.readdir(usageFolder)) {
+        if (name.endsWith(".json")) {
+          await this.remove(path.join(usageFolder, name));
+        }
+      }
+    });
+  }
+
+  async consumeNonce(nonce: string, expiresAt: number): Promise<boolean> {
+    const noncePath = this.statePath("nonces", nonce);
+    await fs.mkdir(path.dirname(noncePath), { recursive: true });
+    try {
+      // exclusive create is atomic, so only one process can use the nonce
+      await fs.writeFile(noncePath, JSON.stringify(expiresAt), { flag: "wx" });
+      return true;
+    } catch (e) {
+      if (e.code === "EEXIST") {
+        return false;
+      }
+      throw e;
+    }
+  }
+
+  async purgeExpiredNonces(now: number): Promise<void> {
+    if (!this.stateFolder) {
+      return;
+    }
+    const noncesFolder = path.join(this.stateFolder, "nonces");
+    let names: string[];
+    try {
+      names = await fs.readdir(noncesFolder);
+    } catch (e) {
+      if (e.code === "ENOENT") {
+        return;
+      }
+      throw e;
+    }
+    for (const name of names) {
+      const expiresAt = await this.readJson(path.join(noncesFolder, name), isTimestamp).catch(() => undefined);
+      if (expiresAt !== undefined && expiresAt < now) {
+        await this.remove(path.join(noncesFolder, name));
+      }
+    }
+  }
+
+  async getUrlRevocation(key: string): Promise<number | undefined> {
+    if (!this.stateFolder) {
+      return undefined;
+    }
+    return (await this.readJson(this.statePath("urlRevocations", key), isUrlRevocation))?.revokedAt;
+  }
+
+  async putUrlRevocation(key: string, revokedAt: number): Promise<void> {
+    await this.writeJson(this.statePath("urlRevocations", key), { key, revokedAt });
+  }
+}
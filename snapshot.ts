@@ -0,0 +1,104 @@
+import crypto from "crypto";
+import { createReadStream } from "fs";
+import fs from "fs/promises";
+import path from "path";
+import { ObjectMetadata } from "./types.js";
+
+/**
+ * Snapshot is a folder with plaintext copies of objects and a manifest which describes them:
+ *
+ *   manifest.json           SnapshotManifest
+ *   objects/<key>           content of the object, e.g. objects/uploads/photo.png
+ *
+ * Folder "objects" has the same layout as S3 bucket, so it can be uploaded by "aws s3 sync objects s3://bucket"
+ * and the manifest gives object properties: contentType is Content-Type, userMetadata are x-amz-meta-* headers,
+ * tags are object tags, originalFilename is the filename of Content-Disposition, sha256 is x-amz-checksum-sha256
+ * (base64 encoded there). Objects with candidateCreatedAt are marked for deletion (not referenced by any record yet)
+ * and should be marked for deletion in the target storage too, otherwise they are never removed.
+ * Encrypted objects are exported decrypted, so snapshot should be protected the same way as the storage itself.
+ */
+export const SNAPSHOT_FORMAT = "adminforth-storage-snapshot";
+export const SNAPSHOT_VERSION = 1;
+
+const MANIFEST_FILE = "manifest.json";
+const OBJECTS_FOLDER = "objects";
+
+export interface SnapshotManifest {
+  format: typeof SNAPSHOT_FORMAT;
+  version: number; // incremented on incompatible changes of the format
+  createdAt: number; // unix timestamp in milliseconds
+  prefix: string; // only keys starting with prefix are exported, "" for all keys
+  objects: SnapshotObject[]; // sorted by key
+}
+
+export interface SnapshotObject extends Omit<ObjectMetadata, "encryption" | "reencryption"> {
+  key: string;
+  sha256: string; // always set, calculated on export for objects stored before checksums were kept
+  candidateCreatedAt?: number; // set if object is marked for deletion, retention period is counted from this time
+}
+
+/**
+ * Path of the object content in the snapshot, throws if the key points outside of objects folder.
+ */
+export function getSnapshotObjectPath(folder: string, key: string): string {
+  const objectsFolder = path.resolve(folder, OBJECTS_FOLDER);
+  const filePath = path.resolve(objectsFolder, key);
+  if (!key || !filePath.startsWith(objectsFolder + path.sep)) {
+    throw new Error(`Invalid key ${key} in snapshot`);
+  }
+  return filePath;
+}
+
+/**
+ * Calculates sha256 of the object content in the snapshot, throws if the file can't be read.
+ */
+export async function hashSnapshotObject(folder: string, key: string): Promise<string> {
+  const sha256 = crypto.createHash("sha256");
+  for await (const chunk of createReadStream(getSnapshotObjectPath(folder, key))) {
+    sha256.update(chunk);
+  }
+  return sha256.digest("hex");
+}
+
+/**
+ * Removes folders of the object which became empty after its file was removed.
+ */
+export async function removeEmptySnapshotFolders(folder: string, filePath: string): Promise<void> {
+  const objectsFolder = path.resolve(folder, OBJECTS_FOLDER);
+  let dir = path.dirname(filePath);
+  while (dir.startsWith(objectsFolder + path.sep) && await fs.rmdir(dir).then(() => true, () => false)) {
+    dir = path.dirname(dir);
+  }
+}
+
+/**
+ * @returns undefined if folder has no manifest, e.g. it is the first export to it
+ */
+export async function readSnapshotManifest(folder: string): Promise<SnapshotManifest | undefined> {
+  let content: string;
+  try {
+    content = await fs.readFile(path.join(folder, MANIFEST_FILE), "utf8");
+  } catch (e) {
+    if (e.code === "ENOENT") {
+      return undefined;
+    }
+    throw e;
+  }
+  const manifest = JSON.parse(content) as SnapshotManifest;
+  if (manifest.format !== SNAPSHOT_FORMAT || !Array.isArray(manifest.objects)) {
+    throw new Error(`${folder} does not contain a storage snapshot`);
+  }
+  if (manifest.version > SNAPSHOT_VERSION) {
+    throw new Error(`Snapshot version ${manifest.version} is not supported, update the adapter`);
+  }
+  return manifest;
+}
+
+/**
+ * Replaces manifest atomically, so interrupted export leaves the previous manifest in place.
+ */
+export async function writeSnapshotManifest(folder: string, manifest: SnapshotManifest): Promise<void> {
+  const tempPath = path.join(folder, `.${MANIFEST_FILE}.${crypto.randomUUID()}.tmp`);
+  await fs.writeFile(tempPath, JSON.stringify(manifest, null, 2));
+  await fs.rename(tempPath, path.join(folder, MANIFEST_FILE));
+}
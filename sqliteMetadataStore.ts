@@ -0,0 +1,132 @@
+import type BetterSqlite3 from "better-sqlite3";
+import { KeyRange, MetadataStore, ObjectMetadata } from "./types.js";
+
+/**
+ * Keeps metadata in SQLite database (WAL mode), which can be opened by several processes at the same time.
+ * Requires optional "better-sqlite3" dependency to be installed.
+ */
+export class SqliteMetadataStore implements MetadataStore {
+  private dbPath: string;
+  private db: BetterSqlite3.Database;
+
+  constructor(dbPath: string) {
+    this.dbPath = dbPath;
+  }
+
+  async open(): Promise<void> {
+    let Database: typeof BetterSqlite3;
+    try {
+      Database = (await import("better-sqlite3")).default;
+    } catch (e) {
+      throw new Error(`SQLite metadata store requires "better-sqlite3" package to be installed: ${e}`);
+    }
+    this.db = new Database(this.dbPath);
+    this.db.pragma("journal_mode = WAL");
+    // wait for lock held by another process instead of failing immediately
+    this.db.pragma("busy_timeout = 5000");
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS objects (key TEXT PRIMARY KEY, metadata TEXT NOT NULL);
+      CREATE TABLE IF NOT EXISTS deletion_candidates (key TEXT PRIMARY KEY, created_at INTEGER NOT NULL);
+      CREATE TABLE IF NOT EXISTS usage_counters (prefix TEXT PRIMARY KEY, bytes INTEGER NOT NULL);
+      CREATE TABLE IF NOT EXISTS used_nonces (nonce TEXT PRIMARY KEY, expires_at INTEGER NOT NULL);
+      CREATE TABLE IF NOT EXISTS url_revocations (key TEXT PRIMARY KEY, revoked_at INTEGER NOT NULL);
+    `);
+  }
+
+  async close(): Promise<void> {
+    this.db?.close();
+  }
+
+  private rangeQuery(table: string, columns: string, range: KeyRange): { sql: string; params: string[] } {
+    const conditions: string[] = [];
+    const params: string[] = [];
+    if (range.gte !== undefined) {
+      conditions.push("key >= ?");
+      params.push(range.gte);
+    }
+    if (range.lt !== undefined) {
+      conditions.push("key < ?");
+      params.push(range.lt);
+    }
+    const where = conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
+    return { sql: `SELECT key, ${columns} FROM ${table} ${where} ORDER BY key`, params };
+  }
+
+  async getMetadata(key: string): Promise<ObjectMetadata | undefined> {
+    const row = this.db.prepare("SELECT metadata FROM objects WHERE key = ?").get(key) as { metadata: string } | undefined;
+    return row ? JSON.parse(row.metadata) : undefined;
+  }
+
+  async putMetadata(key: string, metadata: ObjectMetadata): Promise<void> {
+    this.db.prepare("INSERT OR REPLACE INTO objects (key, metadata) VALUES (?, ?)").run(key, JSON.stringify(metadata));
+  }
+
+  async delMetadata(key: string): Promise<void> {
+    this.db.prepare("DELETE FROM objects WHERE key = ?").run(key);
+  }
+
+  async *iterateMetadata(range: KeyRange = {}): AsyncIterable<[string, ObjectMetadata]> {
+    const { sql, params } = this.rangeQuery("objects", "metadata", range);
+    // read rows upfront: statement iterator can't be kept open while other statements write to the database
+    const rows = this.db.prepare(sql).all(...params) as { key: string; metadata: string }[];
+    for (const row of rows) {
+      yield [row.key, JSON.parse(row.metadata)];
+    }
+  }
+
+  async getCandidate(key: string): Promise<number | undefined> {
+    const row = this.db.prepare("SELECT created_at FROM deletion_candidates WHERE key = ?").get(key) as { created_at: number } | undefined;
+    return row?.created_at;
+  }
+
+  async putCandidate(key: string, createdAt: number): Promise<void> {
+    this.db.prepare("INSERT OR REPLACE INTO deletion_candidates (key, created_at) VALUES (?, ?)").run(key, createdAt);
+  }
+
+  async delCandidate(key: string): Promise<void> {
+    this.db.prepare("DELETE FROM deletion_candidates WHERE key = ?").run(key);
+  }
+
+  async *iterateCandidates(range: KeyRange = {}): AsyncIterable<[string, number]> {
+    const { sql, params } = this.rangeQuery("deletion_candidates", "created_at", range);
+    const rows = this.db.prepare(sql).all(...params) as { key: string; created_at: number }[];
+    for (const row of rows) {
+      yield [row.key, row.created_at];
+    }
+  }
+
+  async getUsageCounter(prefix: string): Promise<number | undefined> {
+    const row = this.db.prepare("SELECT bytes FROM usage_counters WHERE prefix = ?").get(prefix) as { bytes: number } | undefined;
+    return row?.bytes;
+  }
+
+  async initUsageCounter(prefix: string, bytes: number): Promise<void> {
+    this.db.prepare("INSERT OR IGNORE INTO usage_counters (prefix, bytes) VALUES (?, ?)").run(prefix, bytes);
+  }
+
+  async addToUsageCounter(prefix: string, delta: number): Promise<void> {
+    this.db.prepare("UPDATE usage_counters SET bytes = bytes + ? WHERE prefix = ?").run(delta, prefix);
+  }
+
+  async resetUsageCounters(): Promise<void> {
+    this.db.prepare("DELETE FROM usage_counters").run();
+  }
+
+  async consumeNonce(nonce: string, expiresAt: number): Promise<boolean> {
+    const { changes } = this.db.prepare("INSERT OR IGNORE INTO used_nonces (nonce, expires_at) VALUES (?, ?)").run(nonce, expiresAt);
+    return changes === 1;
+  }
+
+  async purgeExpiredNonces(now: number): Promise<void> {
+    this.db.prepare("DELETE FROM used_nonces WHERE expires_at < ?").run(now);
+  }
+
+  async getUrlRevocation(key: string): Promise<number | undefined> {
+    const row = this.db.prepare("SELECT revoked_at FROM url_revocations WHERE key = ?").get(key) as { revoked_at: number } | undefined;
+    return row?.revoked_at;
+  }
+
+  async putUrlRevocation(key: string, revokedAt: number): Promise<void> {
+    this.db.prepare("INSERT OR REPLACE INTO url_revocations (key, revoked_at) VALUES (?, ?)").run(key, revokedAt);
+  }
+}
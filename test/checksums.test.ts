@@ -0,0 +1,122 @@
+import crypto from "crypto";
+import fs from "fs/promises";
+import http from "http";
+import type { AddressInfo } from "net";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import AdminForthStorageAdapterLocalFilesystem from "../index.js";
+
+const CONTENT = Buffer.from("hello world");
+const hash = (algorithm: string, encoding: "hex" | "base64") => crypto.createHash(algorithm).update(CONTENT).digest(encoding);
+
+describe("checksums", () => {
+  let folder: string;
+  let adapter: AdminForthStorageAdapterLocalFilesystem;
+  let server: http.Server;
+  let base: string;
+
+  beforeEach(async () => {
+    folder = await fs.mkdtemp(path.join(os.tmpdir(), "storage-local-test-"));
+    adapter = new AdminForthStorageAdapterLocalFilesystem({
+      fileSystemFolder: path.join(folder, "files"),
+      signingSecret: "test-secret",
+      storeMd5: true,
+    });
+    await adapter.setupLifecycle("test");
+    server = http.createServer(adapter.getRequestHandler());
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+    await adapter.dispose();
+    await fs.rm(folder, { recursive: true, force: true });
+  });
+
+  async function upload(key: string, expected: { sha256?: string; md5?: string }) {
+    const { uploadUrl } = await adapter.getUploadSignedUrl(key, "text/plain", 60, expected);
+    const res = await fetch(base + uploadUrl, { method: "PUT", body: CONTENT, headers: { "Content-Type": "text/plain" } });
+    return res.status;
+  }
+
+  async function get(key: string, headers: Record<string, string> = {}) {
+    return fetch(base + await adapter.getDownloadUrl(key, 60), { headers });
+  }
+
+  // object stored by version which did not calculate checksums
+  async function putLegacyObject(key: string) {
+    await adapter.putObject(key, CONTENT, "text/plain");
+    const { sha256, md5, ...metadata } = await adapter.headObject(key);
+    await adapter["metadataStore"].putMetadata(key, metadata);
+  }
+
+  it("stores checksums and sends them with downloads", async () => {
+    expect(await upload("a.txt", { sha256: hash("sha256", "hex"), md5: hash("md5", "hex") })).toBe(200);
+    expect(await adapter.headObject("a.txt")).toMatchObject({ sha256: hash("sha256", "hex"), md5: hash("md5", "hex") });
+
+    const res = await get("a.txt");
+    expect(res.headers.get("etag")).toBe(`"${hash("sha256", "hex")}"`);
+    expect(res.headers.get("repr-digest")).toBe(`sha-256=:${hash("sha256", "base64")}:`);
+    expect(res.headers.get("digest")).toBe(`SHA-256=${hash("sha256", "base64")},MD5=${hash("md5", "base64")}`);
+    // digest describes whole file, also in partial responses
+    const partial = await get("a.txt", { Range: "bytes=0-4" });
+    expect(partial.status).toBe(206);
+    expect(partial.headers.get("repr-digest")).toBe(`sha-256=:${hash("sha256", "base64")}:`);
+  });
+
+  it.each([
+    [{ sha256: "0".repeat(64) }],
+    [{ md5: "0".repeat(32) }],
+  ])("rejects upload which does not match expected checksum %j", async (expected) => {
+    expect(await upload("a.txt", expected)).toBe(400);
+    expect(await adapter.headObject("a.txt")).toBeNull();
+    expect(await upload("a.txt", {})).toBe(200);
+  });
+
+  it("serves object without checksum with weak ETag and does not write metadata", async () => {
+    await putLegacyObject("a.txt");
+    const putMetadata = vi.spyOn(adapter["metadataStore"], "putMetadata");
+
+    const res = await get("a.txt");
+    expect(res.status).toBe(200);
+    expect(await res.text()).toBe(CONTENT.toString());
+    const etag = res.headers.get("etag");
+    expect(etag).toMatch(/^W\/"[0-9a-f]+-b"$/);
+    expect(res.headers.get("digest")).toBeNull();
+    expect(res.headers.get("repr-digest")).toBeNull();
+
+    expect((await get("a.txt", { "If-None-Match": etag })).status).toBe(304);
+    expect((await get("a.txt", { "If-Match": etag })).status).toBe(412);
+    // weak validator can't be used for ranges
+    expect((await get("a.txt", { Range: "bytes=0-4", "If-Range": etag })).status).toBe(200);
+    expect(putMetadata).not.toHaveBeenCalled();
+    expect((await adapter.headObject("a.txt")).sha256).toBeUndefined();
+  });
+
+  it("stores missing checksums on verification", async () => {
+    await putLegacyObject("a.txt");
+    await adapter.putObject("b.txt", CONTENT, "text/plain");
+
+    const report = await adapter.verifyObjects();
+    expect(report).toMatchObject({ checked: 2, ok: 1 });
+    expect(report.failed).toEqual([{ key: "a.txt", status: "noChecksum", actualSha256: hash("sha256", "hex") }]);
+    expect(await adapter.headObject("a.txt")).toMatchObject({ sha256: hash("sha256", "hex"), md5: hash("md5", "hex") });
+    expect((await get("a.txt")).headers.get("etag")).toBe(`"${hash("sha256", "hex")}"`);
+    expect(await adapter.verifyObjects()).toMatchObject({ checked: 2, ok: 2 });
+  });
+
+  it("detects content changed on disk", async () => {
+    await adapter.putObject("a.txt", CONTENT, "text/plain");
+    await fs.writeFile(path.join(folder, "files", "a.txt"), "hello World");
+    expect(await adapter.verifyObject("a.txt")).toMatchObject({
+      status: "mismatch",
+      expectedSha256: hash("sha256", "hex"),
+      actualSha256: crypto.createHash("sha256").update("hello World").digest("hex"),
+    });
+    expect(await adapter.verifyObject("missing.txt")).toEqual({ key: "missing.txt", status: "missing" });
+  });
+});
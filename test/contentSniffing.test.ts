@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { findContentTypeMismatch, sniffContentType } from "../contentSniffing.js";
+
+const bytes = (...values: number[]) => Buffer.from([...values, ...new Array(32).fill(0x00)]);
+
+describe("content sniffing", () => {
+  it.each([
+    ["MP3 with ID3 tag", "audio/mpeg", bytes(0x49, 0x44, 0x33, 0x04)],
+    ["MPEG-1 Layer III frame", "audio/mpeg", bytes(0xff, 0xfb, 0x90, 0x64)],
+    ["MPEG-2 Layer III frame", "audio/mpeg", bytes(0xff, 0xf3, 0x48, 0xc4)],
+    ["MPEG-2 Layer III frame with CRC", "audio/mp3", bytes(0xff, 0xf2, 0x50, 0xc4)],
+    ["ZIP archive", "application/zip", bytes(0x50, 0x4b, 0x03, 0x04)],
+    ["empty ZIP archive", "application/zip", bytes(0x50, 0x4b, 0x05, 0x06)],
+    ["spanned ZIP archive", "application/x-zip-compressed", bytes(0x50, 0x4b, 0x07, 0x08)],
+    ["Word document", "application/vnd.openxmlformats-officedocument.wordprocessingml.document", bytes(0x50, 0x4b, 0x03, 0x04)],
+    ["TIFF", "image/tiff", bytes(0x49, 0x49, 0x2a, 0x00)],
+    ["little-endian BigTIFF", "image/tiff", bytes(0x49, 0x49, 0x2b, 0x00, 0x08, 0x00)],
+    ["big-endian BigTIFF", "image/tiff", bytes(0x4d, 0x4d, 0x00, 0x2b, 0x00, 0x08)],
+    ["PNG with parameters", "image/PNG; foo=bar", bytes(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a)],
+    ["PNG as generic binary", "application/octet-stream", bytes(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a)],
+    ["HTML", "text/html; charset=utf-8", Buffer.from("<!DOCTYPE html><html></html>")],
+    ["UTF-16 text", "text/plain", Buffer.from("\uFEFFhello", "utf16le")],
+    ["unknown binary with type without signature", "application/x-custom", bytes(0x01, 0x02, 0x03)],
+  ])("accepts %s", (name, contentType, head) => {
+    expect(findContentTypeMismatch(contentType, head)).toBeUndefined();
+  });
+
+  it.each([
+    ["PNG declared as JPEG", "image/jpeg", bytes(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a), "image/png"],
+    ["MP3 frame declared as PNG", "image/png", bytes(0xff, 0xfb, 0x90, 0x64), "audio/mpeg"],
+    ["HTML declared as PNG", "image/png", Buffer.from("<html><script>alert(1)</script>"), "text/html"],
+    ["HTML declared as generic binary", "application/octet-stream", Buffer.from("<html></html>"), "text/html"],
+    ["SVG declared as plain text", "text/plain", Buffer.from('<?xml version="1.0"?><svg xmlns="http://www.w3.org/2000/svg">'), "image/svg+xml"],
+    ["unknown binary declared as PNG", "image/png", bytes(0x01, 0x02, 0x03), "unknown"],
+  ])("rejects %s", (name, contentType, head, detected) => {
+    expect(findContentTypeMismatch(contentType, head)).toBe(detected);
+  });
+
+  it("does not take other data starting with 0xFF for MPEG audio frame", () => {
+    expect(sniffContentType(bytes(0xff, 0xd8, 0xff, 0xe0))).toBe("image/jpeg");
+    // UTF-16 byte order mark, AAC ADTS header and reserved MPEG version
+    expect(sniffContentType(Buffer.from("\uFEFFhi", "utf16le"))).toBeUndefined();
+    expect(sniffContentType(bytes(0xff, 0xf1, 0x50, 0x80))).toBeUndefined();
+    expect(sniffContentType(bytes(0xff, 0xeb, 0x90, 0x64))).toBeUndefined();
+  });
+});
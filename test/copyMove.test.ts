@@ -0,0 +1,135 @@
+import { afLogger } from "adminforth";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import AdminForthStorageAdapterLocalFilesystem from "../index.js";
+
+type Options = ConstructorParameters<typeof AdminForthStorageAdapterLocalFilesystem>[0];
+
+describe("copyObject and moveObject", () => {
+  let folder: string;
+  let adapter: AdminForthStorageAdapterLocalFilesystem;
+
+  beforeEach(async () => {
+    folder = await fs.mkdtemp(path.join(os.tmpdir(), "storage-local-test-"));
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await adapter?.dispose();
+    await fs.rm(folder, { recursive: true, force: true });
+  });
+
+  async function setup(options: Partial<Options> = {}) {
+    adapter = new AdminForthStorageAdapterLocalFilesystem({
+      fileSystemFolder: path.join(folder, "files"),
+      signingSecret: "test-secret",
+      ...options,
+    });
+    await adapter.setupLifecycle("test");
+    await adapter.putObject("a.txt", Buffer.from("source"), "text/plain", { userMetadata: { author: "1" } });
+    await adapter.putObject("b.txt", Buffer.from("target"), "text/csv");
+    await adapter.markKeyForNotDeletion("b.txt");
+  }
+
+  async function readObject(key: string) {
+    const chunks: Buffer[] = [];
+    for await (const chunk of await adapter.getObjectStream(key)) {
+      chunks.push(chunk);
+    }
+    return Buffer.concat(chunks).toString();
+  }
+
+  it("copies object with metadata, the copy is marked for deletion", async () => {
+    await setup();
+    await adapter.markKeyForNotDeletion("a.txt");
+    await adapter.copyObject("a.txt", "docs/c.txt");
+    expect(await readObject("docs/c.txt")).toBe("source");
+    expect(await adapter.headObject("docs/c.txt")).toMatchObject({ contentType: "text/plain", userMetadata: { author: "1" } });
+    expect(await adapter["metadataStore"].getCandidate("docs/c.txt")).toBeTypeOf("number");
+    expect(await readObject("a.txt")).toBe("source");
+  });
+
+  it("moves object with its deletion state", async () => {
+    await setup();
+    await adapter.moveObject("a.txt", "docs/c.txt");
+    expect(await readObject("docs/c.txt")).toBe("source");
+    expect(await adapter["metadataStore"].getCandidate("docs/c.txt")).toBeTypeOf("number");
+    expect(await adapter.headObject("a.txt")).toBeNull();
+    await expect(fs.access(path.join(folder, "files", "a.txt"))).rejects.toMatchObject({ code: "ENOENT" });
+
+    await adapter.moveObject("b.txt", "d.txt");
+    expect(await adapter["metadataStore"].getCandidate("d.txt")).toBeUndefined();
+  });
+
+  it.each(["copyObject", "moveObject"] as const)("%s refuses to overwrite existing object", async (method) => {
+    await setup();
+    await expect(adapter[method]("a.txt", "b.txt")).rejects.toThrow("File b.txt already exists");
+    await expect(adapter[method]("a.txt", "a.txt", { overwrite: true })).rejects.toThrow("Source and destination keys are the same");
+    // file without metadata, e.g. upload which is being committed
+    await fs.writeFile(path.join(folder, "files", "c.txt"), "uncommitted");
+    await expect(adapter[method]("a.txt", "c.txt", { overwrite: true })).rejects.toThrow("File c.txt already exists");
+
+    expect(await readObject("a.txt")).toBe("source");
+    expect(await readObject("b.txt")).toBe("target");
+    expect(await adapter.headObject("b.txt")).toMatchObject({ contentType: "text/csv" });
+    expect(await fs.readFile(path.join(folder, "files", "c.txt"), "utf8")).toBe("uncommitted");
+  });
+
+  it.each(["copyObject", "moveObject"] as const)("%s overwrites existing object when asked", async (method) => {
+    await setup();
+    const deleted = vi.fn();
+    adapter.on("deleted", deleted);
+    await adapter[method]("a.txt", "b.txt", { overwrite: true });
+    expect(await readObject("b.txt")).toBe("source");
+    expect(await adapter.headObject("b.txt")).toMatchObject({ contentType: "text/plain", size: 6 });
+    expect(deleted).toHaveBeenCalledWith({ key: "b.txt", metadata: expect.objectContaining({ contentType: "text/csv" }) });
+    expect(await adapter.getUsage()).toMatchObject({ objects: method === "copyObject" ? 2 : 1 });
+  });
+
+  it.each([
+    ["../a.txt", "b2.txt"],
+    ["a.txt", "../b2.txt"],
+    ["a.txt", "docs/../../b2.txt"],
+    ["a.txt", "/tmp/b2.txt"],
+    ["a.txt", "test/staging/b2.txt"],
+  ])("rejects keys outside of storage folder %s -> %s", async (sourceKey, key) => {
+    await setup();
+    await expect(adapter.copyObject(sourceKey, key)).rejects.toThrow("Invalid key");
+    await expect(adapter.moveObject(sourceKey, key)).rejects.toThrow("Invalid key");
+    await expect(fs.access(path.join(folder, "b2.txt"))).rejects.toMatchObject({ code: "ENOENT" });
+    expect(await readObject("a.txt")).toBe("source");
+  });
+
+  it.each(["copyObject", "moveObject"] as const)("%s restores replaced object when metadata can't be written", async (method) => {
+    await setup({ versioning: {} });
+    vi.spyOn(afLogger, "error").mockImplementation(() => {});
+    vi.spyOn(adapter["metadataStore"], "putMetadata").mockRejectedValueOnce(new Error("disk full"));
+
+    await expect(adapter[method]("a.txt", "b.txt", { overwrite: true })).rejects.toThrow("disk full");
+
+    expect(await readObject("b.txt")).toBe("target");
+    expect(await adapter.headObject("b.txt")).toMatchObject({ contentType: "text/csv", size: 6 });
+    expect(await adapter["metadataStore"].getCandidate("b.txt")).toBeUndefined();
+    expect(await adapter.listVersions("b.txt")).toEqual([]);
+    expect(await readObject("a.txt")).toBe("source");
+    expect(await adapter.headObject("a.txt")).toMatchObject({ contentType: "text/plain" });
+    expect(await adapter.getUsage()).toMatchObject({ objects: 2, bytes: 12 });
+    expect(await fs.readdir(adapter["stagingFolder"])).toEqual([]);
+  });
+
+  it.each(["copyObject", "moveObject"] as const)("%s does not leave file without metadata when versioning is disabled", async (method) => {
+    await setup();
+    vi.spyOn(afLogger, "error").mockImplementation(() => {});
+    vi.spyOn(adapter["metadataStore"], "putMetadata").mockRejectedValueOnce(new Error("disk full"));
+
+    await expect(adapter[method]("a.txt", "b.txt", { overwrite: true })).rejects.toThrow("disk full");
+
+    // replaced object can't be restored without the trash
+    expect(await adapter.headObject("b.txt")).toBeNull();
+    await expect(fs.access(path.join(folder, "files", "b.txt"))).rejects.toMatchObject({ code: "ENOENT" });
+    expect(await readObject("a.txt")).toBe("source");
+    expect((await adapter.fsck()).issues).toEqual([]);
+  });
+});
@@ -0,0 +1,127 @@
+import fs from "fs/promises";
+import http from "http";
+import type { AddressInfo } from "net";
+import os from "os";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import AdminForthStorageAdapterLocalFilesystem from "../index.js";
+
+describe("ranges and conditional requests", () => {
+  let folder: string;
+  let adapter: AdminForthStorageAdapterLocalFilesystem;
+  let server: http.Server;
+  let base: string;
+  let etag: string;
+  let lastModified: string;
+
+  beforeAll(async () => {
+    folder = await fs.mkdtemp(path.join(os.tmpdir(), "storage-local-test-"));
+    adapter = new AdminForthStorageAdapterLocalFilesystem({
+      fileSystemFolder: path.join(folder, "files"),
+      signingSecret: "test-secret",
+    });
+    await adapter.setupLifecycle("test");
+    await adapter.putObject("a.txt", Buffer.from("0123456789"), "text/plain");
+    server = http.createServer(adapter.getRequestHandler());
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    const res = await get();
+    etag = res.headers.get("etag");
+    lastModified = res.headers.get("last-modified");
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+    await adapter.dispose();
+    await fs.rm(folder, { recursive: true, force: true });
+  });
+
+  async function get(headers: Record<string, string> = {}, method = "GET"): Promise<Response> {
+    return fetch(base + await adapter.getDownloadUrl("a.txt", 60), { headers, method });
+  }
+
+  it("serves whole file with validators", async () => {
+    const res = await get();
+    expect(res.status).toBe(200);
+    expect(await res.text()).toBe("0123456789");
+    expect(res.headers.get("accept-ranges")).toBe("bytes");
+    expect(etag).toMatch(/^"[0-9a-f]{64}"$/);
+    expect(lastModified).toBeTruthy();
+
+    const head = await get({}, "HEAD");
+    expect(head.status).toBe(200);
+    expect(head.headers.get("content-length")).toBe("10");
+    expect(await head.text()).toBe("");
+  });
+
+  it.each([
+    ["bytes=2-4", "234", "bytes 2-4/10"],
+    ["bytes=7-", "789", "bytes 7-9/10"],
+    ["bytes=-2", "89", "bytes 8-9/10"],
+    ["bytes=5-100", "56789", "bytes 5-9/10"],
+  ])("serves range %s", async (range, body, contentRange) => {
+    const res = await get({ Range: range });
+    expect(res.status).toBe(206);
+    expect(res.headers.get("content-range")).toBe(contentRange);
+    expect(res.headers.get("content-length")).toBe(String(body.length));
+    expect(await res.text()).toBe(body);
+  });
+
+  it("serves multiple ranges as multipart response", async () => {
+    const res = await get({ Range: "bytes=0-1,8-9" });
+    expect(res.status).toBe(206);
+    const boundary = /multipart\/byteranges; boundary=(\S+)/.exec(res.headers.get("content-type"))[1];
+    const body = await res.text();
+    expect(body).toContain("Content-Range: bytes 0-1/10\r\n\r\n01");
+    expect(body).toContain("Content-Range: bytes 8-9/10\r\n\r\n89");
+    expect(body.trimEnd().endsWith(`--${boundary}--`)).toBe(true);
+  });
+
+  it("rejects range which starts after end of file", async () => {
+    const res = await get({ Range: "bytes=10-" });
+    expect(res.status).toBe(416);
+    expect(res.headers.get("content-range")).toBe("bytes */10");
+  });
+
+  it("ignores malformed range", async () => {
+    const res = await get({ Range: "bytes=4-2" });
+    expect(res.status).toBe(200);
+    expect(await res.text()).toBe("0123456789");
+  });
+
+  it("applies range only if If-Range matches", async () => {
+    expect((await get({ Range: "bytes=0-0", "If-Range": etag })).status).toBe(206);
+    expect((await get({ Range: "bytes=0-0", "If-Range": lastModified })).status).toBe(206);
+    const res = await get({ Range: "bytes=0-0", "If-Range": '"other"' });
+    expect(res.status).toBe(200);
+    expect(await res.text()).toBe("0123456789");
+  });
+
+  it.each([
+    [{ "If-None-Match": "etag" }, 304],
+    [{ "If-None-Match": "W/etag" }, 304],
+    [{ "If-None-Match": '"other", etag' }, 304],
+    [{ "If-None-Match": '"other"' }, 200],
+    [{ "If-Modified-Since": "lastModified" }, 304],
+    [{ "If-Modified-Since": "Thu, 01 Jan 1970 00:00:00 GMT" }, 200],
+    [{ "If-Match": "etag" }, 200],
+    [{ "If-Match": '"other"' }, 412],
+    [{ "If-Match": "W/etag" }, 412],
+    [{ "If-Unmodified-Since": "Thu, 01 Jan 1970 00:00:00 GMT" }, 412],
+    [{ "If-Unmodified-Since": "lastModified" }, 200],
+    // If-None-Match takes precedence over If-Modified-Since
+    [{ "If-None-Match": '"other"', "If-Modified-Since": "lastModified" }, 200],
+  ])("answers %j with %i", async (headers: Record<string, string>, status) => {
+    const resolved = Object.fromEntries(Object.entries(headers).map(([name, value]) => [
+      name,
+      value.replace("lastModified", lastModified).replace("etag", etag),
+    ]));
+    const res = await get(resolved);
+    expect(res.status).toBe(status);
+    if (status === 304) {
+      expect(res.headers.get("etag")).toBe(etag);
+      expect(await res.text()).toBe("");
+    }
+  });
+});
@@ -0,0 +1,170 @@
+import fs from "fs/promises";
+import http from "http";
+import type { AddressInfo } from "net";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import AdminForthStorageAdapterLocalFilesystem from "../index.js";
+
+const KEY_1 = Buffer.alloc(32, 1);
+const KEY_2 = Buffer.alloc(32, 2).toString("hex");
+const CONTENT = Buffer.from("secret content ".repeat(100));
+
+async function readAll(stream: AsyncIterable<Buffer>): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+describe("encryption", () => {
+  let folder: string;
+
+  beforeEach(async () => {
+    folder = await fs.mkdtemp(path.join(os.tmpdir(), "storage-local-test-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(folder, { recursive: true, force: true });
+  });
+
+  function createAdapter(encryption: object | undefined) {
+    return new AdminForthStorageAdapterLocalFilesystem({
+      fileSystemFolder: path.join(folder, "files"),
+      signingSecret: "test-secret",
+      encryption: encryption && { keys: { k1: KEY_1 }, currentKeyId: "k1", ...encryption },
+    });
+  }
+
+  async function withAdapter(encryption: object | undefined, run: (adapter: AdminForthStorageAdapterLocalFilesystem) => Promise<void>) {
+    const adapter = createAdapter(encryption);
+    await adapter.setupLifecycle("test");
+    try {
+      await run(adapter);
+    } finally {
+      await adapter.dispose();
+    }
+  }
+
+  it("stores content encrypted and reads it decrypted", async () => {
+    await withAdapter({ chunkSize: 100 }, async (adapter) => {
+      await adapter.putObject("a.txt", CONTENT, "text/plain");
+      const stored = await fs.readFile(path.join(folder, "files", "a.txt"));
+      expect(stored.includes("secret content")).toBe(false);
+      expect(await readAll(await adapter.getObjectStream("a.txt"))).toEqual(CONTENT);
+      expect((await adapter.headObject("a.txt")).size).toBe(CONTENT.length);
+      expect((await adapter.verifyObject("a.txt")).status).toBe("ok");
+    });
+  });
+
+  it("serves ranges across chunks", async () => {
+    await withAdapter({ chunkSize: 100 }, async (adapter) => {
+      await adapter.putObject("a.txt", CONTENT, "text/plain");
+      const server = http.createServer(adapter.getRequestHandler());
+      await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+      try {
+        const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+        const res = await fetch(base + await adapter.getDownloadUrl("a.txt", 60), { headers: { Range: "bytes=95-304" } });
+        expect(res.status).toBe(206);
+        expect(Buffer.from(await res.arrayBuffer())).toEqual(CONTENT.subarray(95, 305));
+      } finally {
+        server.closeAllConnections();
+        await new Promise((resolve) => server.close(resolve));
+      }
+    });
+  });
+
+  it("detects modified ciphertext", async () => {
+    await withAdapter({}, async (adapter) => {
+      await adapter.putObject("a.txt", CONTENT, "text/plain");
+      const filePath = path.join(folder, "files", "a.txt");
+      const stored = await fs.readFile(filePath);
+      stored[stored.length - 20] ^= 1;
+      await fs.writeFile(filePath, stored);
+      await expect(readAll(await adapter.getObjectStream("a.txt"))).rejects.toThrow();
+    });
+  });
+
+  it("reads objects stored before encryption was enabled and re-encrypts them on rotation", async () => {
+    await withAdapter(undefined, async (adapter) => {
+      await adapter.putObject("plain.txt", CONTENT, "text/plain");
+    });
+    await withAdapter({}, async (adapter) => {
+      await adapter.putObject("k1.txt", CONTENT, "text/plain");
+      expect(await readAll(await adapter.getObjectStream("plain.txt"))).toEqual(CONTENT);
+    });
+    await withAdapter({ keys: { k1: KEY_1, k2: KEY_2 }, currentKeyId: "k2" }, async (adapter) => {
+      expect(await adapter.rotateEncryptionKeys()).toEqual({ rotated: 2, failed: 0 });
+      expect((await adapter.headObject("plain.txt")).encryption.keyId).toBe("k2");
+      expect((await adapter.headObject("k1.txt")).encryption.keyId).toBe("k2");
+    });
+    // old key is not needed after rotation
+    await withAdapter({ keys: { k2: KEY_2 }, currentKeyId: "k2" }, async (adapter) => {
+      expect(await readAll(await adapter.getObjectStream("plain.txt"))).toEqual(CONTENT);
+      expect(await readAll(await adapter.getObjectStream("k1.txt"))).toEqual(CONTENT);
+    });
+  });
+
+  // metadata update after the file was replaced fails, as if the process stopped between them
+  function failFinalMetadataUpdate(adapter: AdminForthStorageAdapterLocalFilesystem) {
+    const store = adapter["metadataStore"];
+    const putMetadata = store.putMetadata.bind(store);
+    return vi.spyOn(store, "putMetadata").mockImplementation(async (key, metadata) => {
+      if (!metadata.reencryption) {
+        throw new Error("stopped");
+      }
+      return putMetadata(key, metadata);
+    });
+  }
+
+  it.each([
+    ["plaintext", undefined],
+    ["encrypted with old key", {}],
+  ])("keeps %s object readable if rotation stops after the file was replaced", async (name, before) => {
+    await withAdapter(before, async (adapter) => {
+      await adapter.putObject("a.txt", CONTENT, "text/plain");
+    });
+    await withAdapter({ keys: { k1: KEY_1, k2: KEY_2 }, currentKeyId: "k2" }, async (adapter) => {
+      const spy = failFinalMetadataUpdate(adapter);
+      expect(await adapter.rotateEncryptionKeys()).toEqual({ rotated: 0, failed: 1 });
+      spy.mockRestore();
+      expect((await adapter.headObject("a.txt")).reencryption).toMatchObject({ keyId: "k2" });
+      expect(await readAll(await adapter.getObjectStream("a.txt"))).toEqual(CONTENT);
+      expect((await adapter.verifyObject("a.txt")).status).toBe("ok");
+
+      expect(await adapter.rotateEncryptionKeys()).toEqual({ rotated: 1, failed: 0 });
+      const metadata = await adapter.headObject("a.txt");
+      expect(metadata.encryption.keyId).toBe("k2");
+      expect(metadata.reencryption).toBeUndefined();
+      expect(await readAll(await adapter.getObjectStream("a.txt"))).toEqual(CONTENT);
+    });
+  });
+
+  it("does not bring back object deleted while it was re-encrypted", async () => {
+    await withAdapter(undefined, async (adapter) => {
+      await adapter.putObject("a.txt", CONTENT, "text/plain");
+    });
+    await withAdapter({}, async (adapter) => {
+      const store = adapter["metadataStore"];
+      const putMetadata = store.putMetadata.bind(store);
+      vi.spyOn(store, "putMetadata").mockImplementation(async (key, metadata) => {
+        await putMetadata(key, metadata);
+        if (metadata.reencryption) {
+          await adapter.deleteObject(key);
+        }
+      });
+      expect(await adapter.rotateEncryptionKeys()).toEqual({ rotated: 0, failed: 0 });
+      expect(await adapter.headObject("a.txt")).toBeNull();
+      await expect(fs.access(path.join(folder, "files", "a.txt"))).rejects.toThrow();
+    });
+  });
+
+  it.each([0, -1, 1.5, NaN, Infinity, "1024"])("rejects chunkSize %s", (chunkSize) => {
+    expect(() => createAdapter({ chunkSize })).toThrow("Encryption chunkSize should be a positive integer");
+  });
+
+  it("rejects keys which are not 32 bytes long", () => {
+    expect(() => createAdapter({ keys: { k1: Buffer.alloc(16) } })).toThrow("Encryption key k1 should be 32 bytes long");
+  });
+});
@@ -0,0 +1,238 @@
+import { afLogger } from "adminforth";
+import crypto from "crypto";
+import fs from "fs/promises";
+import http from "http";
+import type { AddressInfo } from "net";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import AdminForthStorageAdapterLocalFilesystem from "../index.js";
+import type { BeforeUploadContext, BeforeUploadResult, StorageEvents } from "../index.js";
+
+type Options = ConstructorParameters<typeof AdminForthStorageAdapterLocalFilesystem>[0];
+
+describe("events", () => {
+  let folder: string;
+  let adapter: AdminForthStorageAdapterLocalFilesystem;
+  let events: string[];
+
+  beforeEach(async () => {
+    folder = await fs.mkdtemp(path.join(os.tmpdir(), "storage-local-test-"));
+    adapter = new AdminForthStorageAdapterLocalFilesystem({
+      fileSystemFolder: path.join(folder, "files"),
+      signingSecret: "test-secret",
+      versioning: {},
+      retentionPeriod: 10,
+    });
+    await adapter.setupLifecycle("test");
+    events = [];
+    for (const event of ["uploaded", "committed", "deleted", "copied", "moved", "restored", "expired"] as const) {
+      adapter.on(event, (payload: StorageEvents[typeof event]) => {
+        events.push(["sourceKey" in payload ? `${event} ${payload.sourceKey} ->` : event, payload.key].join(" "));
+      });
+    }
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await adapter.dispose();
+    await fs.rm(folder, { recursive: true, force: true });
+  });
+
+  it("emits events of object lifecycle", async () => {
+    const uploaded = vi.fn();
+    adapter.once("uploaded", uploaded);
+    await adapter.putObject("a.txt", Buffer.from("hello"), "text/plain");
+    expect(uploaded).toHaveBeenCalledWith({ key: "a.txt", metadata: expect.objectContaining({ contentType: "text/plain", size: 5 }) });
+
+    await adapter.markKeyForNotDeletion("a.txt");
+    // key is already committed
+    await adapter.markKeyForNotDeletion("a.txt");
+    await adapter.copyObject("a.txt", "b.txt");
+    await adapter.moveObject("b.txt", "c.txt");
+    await adapter.deleteObject("c.txt");
+    await adapter.deleteObject("c.txt");
+    await adapter.restore("c.txt");
+
+    expect(events).toEqual([
+      "uploaded a.txt",
+      "committed a.txt",
+      "copied a.txt -> b.txt",
+      "moved b.txt -> c.txt",
+      "deleted c.txt",
+      "restored c.txt",
+    ]);
+    expect(uploaded).toHaveBeenCalledTimes(1);
+  });
+
+  it("emits deleted event for overwritten object", async () => {
+    await adapter.putObject("a.txt", Buffer.from("first"), "text/plain");
+    await adapter.putObject("b.txt", Buffer.from("second"), "text/plain");
+    const deleted = vi.fn();
+    adapter.on("deleted", deleted);
+    await adapter.copyObject("b.txt", "a.txt", { overwrite: true });
+    expect(deleted).toHaveBeenCalledWith({ key: "a.txt", metadata: expect.objectContaining({ size: 5 }) });
+  });
+
+  it("emits expired event when sweeper removes object", async () => {
+    await adapter.putObject("a.txt", Buffer.from("hello"), "text/plain");
+    const now = Date.now();
+    vi.spyOn(Date, "now").mockReturnValue(now + 60 * 1000);
+    expect(await adapter.sweepDeletionCandidates()).toBe(1);
+    expect(events).toEqual(["uploaded a.txt", "expired a.txt"]);
+  });
+
+  it("does not fail operation when listener fails", async () => {
+    const error = vi.spyOn(afLogger, "error").mockImplementation(() => {});
+    adapter.on("uploaded", () => {
+      throw new Error("sync failure");
+    });
+    adapter.on("uploaded", async () => {
+      throw new Error("async failure");
+    });
+    await adapter.putObject("a.txt", Buffer.from("hello"), "text/plain");
+    expect(await adapter.headObject("a.txt")).toMatchObject({ size: 5 });
+    expect(events).toEqual(["uploaded a.txt"]);
+    await vi.waitFor(() => {
+      expect(error).toHaveBeenCalledWith(expect.stringContaining("async failure"));
+    });
+    expect(error).toHaveBeenCalledWith(expect.stringContaining("sync failure"));
+  });
+
+  it("stops calling removed listener", async () => {
+    const listener = vi.fn();
+    adapter.on("deleted", listener);
+    adapter.off("deleted", listener);
+    await adapter.putObject("a.txt", Buffer.from("hello"), "text/plain");
+    await adapter.deleteObject("a.txt");
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
+
+describe("beforeUpload hook", () => {
+  let folder: string;
+  let adapter: AdminForthStorageAdapterLocalFilesystem;
+  let server: http.Server;
+  let base: string;
+
+  beforeEach(async () => {
+    folder = await fs.mkdtemp(path.join(os.tmpdir(), "storage-local-test-"));
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    if (server) {
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+    }
+    await adapter?.dispose();
+    await fs.rm(folder, { recursive: true, force: true });
+  });
+
+  async function setup(beforeUpload: (context: BeforeUploadContext) => BeforeUploadResult | Promise<BeforeUploadResult>, options: Partial<Options> = {}) {
+    adapter = new AdminForthStorageAdapterLocalFilesystem({
+      fileSystemFolder: path.join(folder, "files"),
+      signingSecret: "test-secret",
+      hooks: { beforeUpload },
+      ...options,
+    });
+    await adapter.setupLifecycle("test");
+    server = http.createServer(adapter.getRequestHandler());
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  }
+
+  async function upload(key: string, body = "hello") {
+    const { uploadUrl } = await adapter.getUploadSignedUrl(key, "text/plain", 60, {}, { userMetadata: { "uploaded-by": "42" } });
+    const res = await fetch(base + uploadUrl, { method: "PUT", body, headers: { "Content-Type": "text/plain" } });
+    return { status: res.status, body: await res.text() };
+  }
+
+  async function readAll(stream: NodeJS.ReadableStream) {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks).toString();
+  }
+
+  it("gets staged file which is not accessible by the key yet", async () => {
+    let content: string | undefined;
+    let existed: boolean | undefined;
+    const hook = vi.fn(async (context: BeforeUploadContext) => {
+      content = await readAll(context.createReadStream());
+      existed = await adapter.headObject(context.key) !== null;
+    });
+    await setup(hook);
+
+    expect((await upload("a.txt")).status).toBe(200);
+    expect(hook).toHaveBeenCalledWith(expect.objectContaining({
+      key: "a.txt",
+      contentType: "text/plain",
+      size: 5,
+      sha256: crypto.createHash("sha256").update("hello").digest("hex"),
+      metadata: expect.objectContaining({ userMetadata: { "uploaded-by": "42" } }),
+    }));
+    expect(content).toBe("hello");
+    expect(existed).toBe(false);
+    expect(await adapter.headObject("a.txt")).toMatchObject({ size: 5 });
+  });
+
+  it("decrypts staged file for the hook", async () => {
+    let content: string | undefined;
+    let raw: Buffer | undefined;
+    await setup(async (context) => {
+      content = await readAll(context.createReadStream());
+      raw = await fs.readFile(context.filePath);
+    }, { encryption: { keys: { k1: crypto.randomBytes(32).toString("base64") }, currentKeyId: "k1" } });
+    await adapter.putObject("a.txt", Buffer.from("hello"), "text/plain");
+    expect(content).toBe("hello");
+    expect(raw.includes("hello")).toBe(false);
+  });
+
+  it("rejects upload and removes staged file", async () => {
+    const rejected = vi.fn();
+    await setup(() => ({ action: "reject", reason: "Virus found" }));
+    adapter.on("rejected", rejected);
+
+    expect(await upload("a.txt")).toEqual({ status: 422, body: "Virus found" });
+    expect(await adapter.headObject("a.txt")).toBeNull();
+    await expect(fs.access(path.join(folder, "files", "a.txt"))).rejects.toMatchObject({ code: "ENOENT" });
+    expect(await fs.readdir(adapter["stagingFolder"])).toEqual([]);
+    expect(rejected).toHaveBeenCalledWith({ key: "a.txt", reason: "Virus found", quarantinePath: undefined });
+    await expect(adapter.putObject("b.txt", Buffer.from("hello"), "text/plain")).rejects.toThrow("Virus found");
+  });
+
+  it("moves quarantined upload out of staging folder", async () => {
+    const rejected = vi.fn();
+    await setup(() => ({ action: "quarantine" }));
+    adapter.on("rejected", rejected);
+
+    expect(await upload("docs/a.txt", "infected")).toEqual({ status: 422, body: "File is rejected" });
+    expect(await adapter.headObject("docs/a.txt")).toBeNull();
+    const quarantinePath = path.join(adapter["internalFolder"], "quarantine", "docs", "a.txt");
+    expect(await fs.readFile(quarantinePath, "utf8")).toBe("infected");
+    expect(await fs.readdir(adapter["stagingFolder"])).toEqual([]);
+    expect(rejected).toHaveBeenCalledWith({ key: "docs/a.txt", reason: "File is rejected", quarantinePath });
+    // quarantined file is not an orphan of fileSystemFolder
+    expect((await adapter.fsck()).issues).toEqual([]);
+  });
+
+  it("fails upload when hook throws", async () => {
+    vi.spyOn(afLogger, "error").mockImplementation(() => {});
+    await setup(() => {
+      throw new Error("scanner is down");
+    });
+    const res = await upload("a.txt");
+    expect(res.status).toBe(500);
+    expect(await adapter.headObject("a.txt")).toBeNull();
+    await expect(adapter.putObject("a.txt", Buffer.from("hello"), "text/plain")).rejects.toThrow("beforeUpload hook failed");
+    expect(await fs.readdir(adapter["stagingFolder"])).toEqual([]);
+  });
+
+  it("accepts upload when hook returns accept", async () => {
+    await setup(() => ({ action: "accept" }));
+    expect((await upload("a.txt")).status).toBe(200);
+    expect(await adapter.headObject("a.txt")).toMatchObject({ size: 5 });
+  });
+});
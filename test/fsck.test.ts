@@ -0,0 +1,92 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import AdminForthStorageAdapterLocalFilesystem from "../index.js";
+
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00, 0x00, 0x0d]);
+
+describe("fsck", () => {
+  let folder: string;
+  let filesFolder: string;
+  let adapter: AdminForthStorageAdapterLocalFilesystem;
+
+  beforeEach(async () => {
+    folder = await fs.mkdtemp(path.join(os.tmpdir(), "storage-local-test-"));
+    filesFolder = path.join(folder, "files");
+    adapter = new AdminForthStorageAdapterLocalFilesystem({
+      fileSystemFolder: filesFolder,
+      signingSecret: "test-secret",
+    });
+    await adapter.setupLifecycle("test");
+
+    for (const key of ["ok.txt", "missing.txt", "resized.txt"]) {
+      await adapter.putObject(key, Buffer.from("hello"), "text/plain");
+      await adapter.markKeyForNotDeletion(key);
+    }
+    await fs.unlink(path.join(filesFolder, "missing.txt"));
+    await fs.writeFile(path.join(filesFolder, "resized.txt"), "hello world");
+    await fs.mkdir(path.join(filesFolder, "images"));
+    await fs.writeFile(path.join(filesFolder, "images", "orphan.png"), PNG);
+    await adapter["metadataStore"].putCandidate("ghost.txt", Date.now());
+  });
+
+  afterEach(async () => {
+    await adapter?.dispose();
+    await fs.rm(folder, { recursive: true, force: true });
+  });
+
+  const issuesOf = (report: Awaited<ReturnType<typeof adapter.fsck>>) => report.issues
+    .map(({ type, key }) => `${type} ${key}`)
+    .sort();
+
+  it("reports issues without changing anything", async () => {
+    const report = await adapter.fsck();
+    expect(issuesOf(report)).toEqual([
+      "missingFile missing.txt",
+      "orphanFile images/orphan.png",
+      "sizeMismatch resized.txt",
+      "stuckCandidate ghost.txt",
+    ]);
+    expect(report).toMatchObject({ checkedFiles: 3, checkedMetadata: 3, repaired: 0, failed: 0 });
+    expect(await adapter["metadataStore"].getMetadata("missing.txt")).toBeDefined();
+    expect(await adapter.headObject("images/orphan.png")).toBeNull();
+    expect(await adapter.headObject("resized.txt")).toMatchObject({ size: 5 });
+  });
+
+  it("repairs issues and rebuilds metadata of orphan files", async () => {
+    const report = await adapter.fsck({ repair: true });
+    expect(report).toMatchObject({ repaired: 4, failed: 0 });
+
+    expect(await adapter.headObject("images/orphan.png")).toMatchObject({ contentType: "image/png", size: PNG.length });
+    expect(await adapter["metadataStore"].getMetadata("missing.txt")).toBeUndefined();
+    const resized = await adapter.headObject("resized.txt");
+    expect(resized).toMatchObject({ size: 11 });
+    // checksums belong to the old content
+    expect(resized.sha256).toBeUndefined();
+    expect(await adapter["metadataStore"].getCandidate("ghost.txt")).toBeUndefined();
+    expect(await adapter.headObject("ok.txt")).toMatchObject({ size: 5 });
+
+    expect((await adapter.fsck()).issues).toEqual([]);
+  });
+
+  it("quarantines orphan files", async () => {
+    await adapter.fsck({ repair: true, orphans: "quarantine" });
+    await expect(fs.access(path.join(filesFolder, "images", "orphan.png"))).rejects.toMatchObject({ code: "ENOENT" });
+    expect(await fs.readFile(path.join(adapter["internalFolder"], "quarantine", "images", "orphan.png"))).toEqual(PNG);
+    expect((await adapter.fsck()).issues).toEqual([]);
+  });
+
+  it("deletes orphan files", async () => {
+    await adapter.fsck({ repair: true, orphans: "delete" });
+    await expect(fs.access(path.join(filesFolder, "images", "orphan.png"))).rejects.toMatchObject({ code: "ENOENT" });
+    expect(await adapter.headObject("images/orphan.png")).toBeNull();
+  });
+
+  it("skips excluded prefixes", async () => {
+    const report = await adapter.fsck({ repair: true, exclude: ["images/", "missing"] });
+    expect(issuesOf(report)).toEqual(["sizeMismatch resized.txt", "stuckCandidate ghost.txt"]);
+    expect(await adapter["metadataStore"].getMetadata("missing.txt")).toBeDefined();
+    expect(await adapter.headObject("images/orphan.png")).toBeNull();
+  });
+});
@@ -0,0 +1,184 @@
+import fs from "fs/promises";
+import http from "http";
+import type { AddressInfo } from "net";
+import os from "os";
+import path from "path";
+import sharp from "sharp";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import AdminForthStorageAdapterLocalFilesystem from "../index.js";
+import type { ImageVariantOptions } from "../index.js";
+import { imageVariantCacheName, validateImageVariant } from "../imageVariants.js";
+
+type Options = ConstructorParameters<typeof AdminForthStorageAdapterLocalFilesystem>[0];
+
+function createImage(width: number, height: number, format: "png" | "jpeg" = "png") {
+  return sharp({ create: { width, height, channels: 3, background: { r: 200, g: 20, b: 20 } } }).toFormat(format).toBuffer();
+}
+
+describe("image variant options", () => {
+  it.each([
+    [{ width: 0 }, "width should be an integer from 1 to 4096"],
+    [{ height: 4097 }, "height should be an integer from 1 to 4096"],
+    [{ width: 1.5 }, "width should be an integer"],
+    [{ fit: "stretch" }, "fit should be one of"],
+    [{ format: "gif" }, "format should be one of"],
+    [{ format: "webp", quality: 101 }, "quality should be an integer from 1 to 100"],
+    [{ quality: 80 }, "quality can be set only together with format"],
+  ])("rejects %j", (variant, message) => {
+    expect(() => validateImageVariant(variant as ImageVariantOptions)).toThrow(message);
+  });
+
+  it("names cached variant by content and parameters", () => {
+    const name = imageVariantCacheName("a".repeat(64), { width: 100 });
+    expect(imageVariantCacheName("a".repeat(64), { width: 100 })).toBe(name);
+    expect(imageVariantCacheName("b".repeat(64), { width: 100 })).not.toBe(name);
+    expect(imageVariantCacheName("a".repeat(64), { width: 100, format: "webp" })).not.toBe(name);
+  });
+});
+
+describe("image variants", () => {
+  let folder: string;
+  let adapter: AdminForthStorageAdapterLocalFilesystem;
+  let server: http.Server;
+  let base: string;
+
+  beforeEach(async () => {
+    folder = await fs.mkdtemp(path.join(os.tmpdir(), "storage-local-test-"));
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+    await adapter.dispose();
+    await fs.rm(folder, { recursive: true, force: true });
+  });
+
+  async function setup(options: Partial<Options> = {}) {
+    adapter = new AdminForthStorageAdapterLocalFilesystem({
+      fileSystemFolder: path.join(folder, "files"),
+      signingSecret: "test-secret",
+      ...options,
+    });
+    await adapter.setupLifecycle("test");
+    server = http.createServer(adapter.getRequestHandler());
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    await adapter.putObject("photo.png", await createImage(400, 300), "image/png");
+  }
+
+  async function get(url: string) {
+    const res = await fetch(base + url);
+    return { status: res.status, headers: res.headers, body: Buffer.from(await res.arrayBuffer()) };
+  }
+
+  async function getVariant(key: string, variant: ImageVariantOptions) {
+    return get(await adapter.getDownloadUrl(key, 60, variant));
+  }
+
+  async function cachedVariants(key: string) {
+    return fs.readdir(adapter.getImageVariantPaths(key).folder).catch((): string[] => []);
+  }
+
+  it("generates resized variant in requested format", async () => {
+    await setup();
+    const res = await getVariant("photo.png", { width: 100, height: 100, format: "webp" });
+    expect(res.status).toBe(200);
+    expect(res.headers.get("content-type")).toBe("image/webp");
+    expect(await sharp(res.body).metadata()).toMatchObject({ format: "webp", width: 100, height: 100 });
+
+    const inside = await getVariant("photo.png", { width: 100, height: 100, fit: "inside" });
+    expect(inside.headers.get("content-type")).toBe("image/png");
+    expect(await sharp(inside.body).metadata()).toMatchObject({ format: "png", width: 100, height: 75 });
+  });
+
+  it("never enlarges images", async () => {
+    await setup();
+    const res = await getVariant("photo.png", { width: 1000 });
+    expect(await sharp(res.body).metadata()).toMatchObject({ width: 400, height: 300 });
+  });
+
+  it("generates variant once and serves it from cache", async () => {
+    await setup();
+    const variant = { width: 50, format: "jpeg", quality: 50 } as const;
+    const [first, second] = await Promise.all([getVariant("photo.png", variant), getVariant("photo.png", variant)]);
+    expect(second.body).toEqual(first.body);
+    expect(await cachedVariants("photo.png")).toHaveLength(2);
+
+    const cached = await getVariant("photo.png", variant);
+    expect(cached.body).toEqual(first.body);
+    expect(cached.headers.get("etag")).toBe(first.headers.get("etag"));
+    expect(await cachedVariants("photo.png")).toHaveLength(2);
+    // variants do not count as objects
+    expect(await adapter.getUsage()).toMatchObject({ objects: 1 });
+  });
+
+  it("regenerates variant when the original is replaced", async () => {
+    await setup();
+    await adapter.putObject("other.png", await createImage(200, 400), "image/png");
+    const before = await getVariant("photo.png", { width: 100, fit: "inside" });
+    expect(await sharp(before.body).metadata()).toMatchObject({ width: 100, height: 75 });
+
+    await adapter.copyObject("other.png", "photo.png", { overwrite: true });
+    const after = await getVariant("photo.png", { width: 100, fit: "inside" });
+    expect(await sharp(after.body).metadata()).toMatchObject({ width: 100, height: 200 });
+    expect(after.headers.get("etag")).not.toBe(before.headers.get("etag"));
+  });
+
+  it("removes variants together with the original", async () => {
+    await setup({ retentionPeriod: 10 });
+    await adapter.putObject("other.png", await createImage(200, 400), "image/png");
+    await getVariant("photo.png", { width: 100 });
+    await getVariant("other.png", { width: 100 });
+    expect(await cachedVariants("photo.png")).not.toEqual([]);
+
+    await adapter.deleteObject("photo.png");
+    expect(await cachedVariants("photo.png")).toEqual([]);
+    expect((await getVariant("photo.png", { width: 100 })).status).toBe(404);
+
+    await adapter.moveObject("other.png", "moved.png");
+    expect(await cachedVariants("other.png")).toEqual([]);
+    await getVariant("moved.png", { width: 100 });
+    expect(await cachedVariants("moved.png")).not.toEqual([]);
+
+    const now = Date.now();
+    vi.spyOn(Date, "now").mockReturnValue(now + 60 * 1000);
+    expect(await adapter.sweepDeletionCandidates()).toBe(1);
+    expect(await cachedVariants("moved.png")).toEqual([]);
+  });
+
+  it("rejects tampered variant parameters", async () => {
+    await setup();
+    const url = await adapter.getDownloadUrl("photo.png", 60, { width: 100 });
+    const res = await get(url.replace("variant-width=100", "variant-width=4000"));
+    expect(res.status).toBe(403);
+    expect(await cachedVariants("photo.png")).toEqual([]);
+  });
+
+  it("signs variant URLs in public mode", async () => {
+    await setup({ mode: "public" });
+    const publicUrl = await adapter.getDownloadUrl("photo.png", 60);
+    expect((await get(publicUrl)).status).toBe(200);
+    expect((await get(`${publicUrl}?variant-width=100`)).status).toBe(403);
+    const url = await adapter.getDownloadUrl("photo.png", 60, { width: 100 });
+    expect(url).toContain("signature=");
+    expect((await get(url)).status).toBe(200);
+  });
+
+  it("refuses to generate variants of other files", async () => {
+    await setup();
+    await adapter.putObject("a.txt", Buffer.from("hello"), "text/plain");
+    const res = await getVariant("a.txt", { width: 100 });
+    expect(res.status).toBe(400);
+    expect(res.body.toString()).toBe("Variants can be generated only for images");
+  });
+
+  it("encrypts cached variants when encryption is enabled", async () => {
+    await setup({ encryption: { keys: { k1: Buffer.alloc(32, 1) }, currentKeyId: "k1" } });
+    const res = await getVariant("photo.png", { width: 100, format: "png" });
+    expect(await sharp(res.body).metadata()).toMatchObject({ format: "png", width: 100 });
+    const [data] = (await cachedVariants("photo.png")).filter((name) => name.endsWith(".data"));
+    const stored = await fs.readFile(path.join(adapter.getImageVariantPaths("photo.png").folder, data));
+    expect(stored.includes(res.body.subarray(0, 16))).toBe(false);
+  });
+});
@@ -0,0 +1,122 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import AdminForthStorageAdapterLocalFilesystem from "../index.js";
+
+type Options = ConstructorParameters<typeof AdminForthStorageAdapterLocalFilesystem>[0];
+
+describe("lifecycle options", () => {
+  it.each([
+    [{ sweepInterval: 0 }, "sweepInterval should be a positive number"],
+    [{ sweepInterval: -10 }, "sweepInterval should be a positive number"],
+    [{ sweepBatchSize: 0 }, "sweepBatchSize should be a positive number"],
+    [{ sweepBatchSize: 1.5 }, "sweepBatchSize should be an integer"],
+    [{ retentionPeriod: -1 }, "retentionPeriod should be a non-negative number"],
+    [{ retentionPeriod: NaN }, "retentionPeriod should be a non-negative number"],
+    [{ retentionRules: [{ prefix: "tmp/", retentionPeriod: -1 }] }, "retentionPeriod should be a non-negative number"],
+    [{ retentionRules: [{ prefix: undefined, retentionPeriod: 60 }] }, "retentionRules should have prefix and retentionPeriod"],
+  ])("rejects %j", (options: Partial<Options>, message) => {
+    expect(() => new AdminForthStorageAdapterLocalFilesystem({
+      fileSystemFolder: path.join(os.tmpdir(), "storage-local-test-unused"),
+      signingSecret: "test-secret",
+      ...options,
+    })).toThrow(message);
+  });
+});
+
+describe("deletion sweeper", () => {
+  let folder: string;
+  let adapter: AdminForthStorageAdapterLocalFilesystem;
+
+  beforeEach(async () => {
+    folder = await fs.mkdtemp(path.join(os.tmpdir(), "storage-local-test-"));
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await adapter?.dispose();
+    await fs.rm(folder, { recursive: true, force: true });
+  });
+
+  async function setup(options: Partial<Options> = {}) {
+    adapter = new AdminForthStorageAdapterLocalFilesystem({
+      fileSystemFolder: path.join(folder, "files"),
+      signingSecret: "test-secret",
+      ...options,
+    });
+    await adapter.setupLifecycle("test");
+  }
+
+  function advanceClock(seconds: number) {
+    const now = Date.now();
+    vi.spyOn(Date, "now").mockReturnValue(now + seconds * 1000);
+  }
+
+  it("removes candidates older than retention period of the longest matching prefix", async () => {
+    await setup({
+      retentionPeriod: 100,
+      retentionRules: [{ prefix: "tmp/", retentionPeriod: 10 }, { prefix: "tmp/keep/", retentionPeriod: 1000 }],
+    });
+    for (const key of ["a.txt", "tmp/a.txt", "tmp/keep/a.txt", "committed.txt"]) {
+      await adapter.putObject(key, Buffer.from("hello"), "text/plain");
+    }
+    await adapter.markKeyForNotDeletion("committed.txt");
+
+    advanceClock(50);
+    expect(await adapter.sweepDeletionCandidates()).toBe(1);
+    expect(await adapter.headObject("tmp/a.txt")).toBeNull();
+    expect(await adapter.headObject("a.txt")).not.toBeNull();
+
+    advanceClock(500);
+    expect(await adapter.sweepDeletionCandidates()).toBe(1);
+    expect(await adapter.headObject("a.txt")).toBeNull();
+    expect(await adapter.headObject("tmp/keep/a.txt")).not.toBeNull();
+    expect(await adapter.headObject("committed.txt")).not.toBeNull();
+  });
+
+  it("removes at most sweepBatchSize objects per run", async () => {
+    await setup({ retentionPeriod: 10, sweepBatchSize: 2 });
+    for (const key of ["a.txt", "b.txt", "c.txt"]) {
+      await adapter.putObject(key, Buffer.from("hello"), "text/plain");
+    }
+    advanceClock(60);
+    expect(await adapter.sweepDeletionCandidates()).toBe(2);
+    expect(await adapter.sweepDeletionCandidates()).toBe(1);
+    expect(await adapter.sweepDeletionCandidates()).toBe(0);
+  });
+
+  it("runs sweeper every sweepInterval", async () => {
+    await setup({ retentionPeriod: 0, sweepInterval: 0.05 });
+    await adapter.putObject("a.txt", Buffer.from("hello"), "text/plain");
+    await vi.waitFor(async () => {
+      expect(await adapter.headObject("a.txt")).toBeNull();
+    });
+  });
+
+  it("waits for sweep in progress before closing metadata store", async () => {
+    await setup({ retentionPeriod: 10 });
+    await adapter.putObject("a.txt", Buffer.from("hello"), "text/plain");
+    advanceClock(60);
+    const events: string[] = [];
+    const removeExpiredObject = adapter.removeExpiredObject.bind(adapter);
+    vi.spyOn(adapter, "removeExpiredObject").mockImplementation(async (key) => {
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      await removeExpiredObject(key);
+      events.push("removed");
+    });
+    const close = adapter["metadataStore"].close.bind(adapter["metadataStore"]);
+    vi.spyOn(adapter["metadataStore"], "close").mockImplementation(async () => {
+      events.push("closed");
+      await close();
+    });
+
+    const sweep = adapter.sweepDeletionCandidates();
+    // second run is skipped while first one is in progress
+    expect(await adapter.sweepDeletionCandidates()).toBe(0);
+    await adapter.dispose();
+    expect(await sweep).toBe(1);
+    expect(events).toEqual(["removed", "closed"]);
+    adapter = undefined;
+  });
+});
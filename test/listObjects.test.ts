@@ -0,0 +1,88 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import AdminForthStorageAdapterLocalFilesystem from "../index.js";
+import type { ListObjectsOptions } from "../index.js";
+
+const KEYS = ["a.txt", "docs-old/5.txt", "docs/1.txt", "docs/2.txt", "docs/sub/3.txt", "docs/sub/4.txt", "z.txt"];
+
+describe.each(["level", "sidecar", "sqlite"] as const)("listObjects with %s metadata store", (metadataStore) => {
+  let folder: string;
+  let adapter: AdminForthStorageAdapterLocalFilesystem;
+
+  beforeEach(async () => {
+    folder = await fs.mkdtemp(path.join(os.tmpdir(), "storage-local-test-"));
+    adapter = new AdminForthStorageAdapterLocalFilesystem({
+      fileSystemFolder: path.join(folder, "files"),
+      signingSecret: "test-secret",
+      metadataStore,
+    });
+    await adapter.setupLifecycle("test");
+    // stored in other order than listed
+    for (const key of [...KEYS].reverse()) {
+      await adapter.putObject(key, Buffer.from(key), "text/plain");
+    }
+  });
+
+  afterEach(async () => {
+    await adapter?.dispose();
+    await fs.rm(folder, { recursive: true, force: true });
+  });
+
+  async function listAll(options: ListObjectsOptions) {
+    const pages: string[][] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await adapter.listObjects({ ...options, cursor });
+      pages.push([...page.objects.map((object) => object.key), ...page.commonPrefixes]);
+      cursor = page.nextCursor;
+    } while (cursor);
+    return pages;
+  }
+
+  it("lists objects with metadata in key order", async () => {
+    const { objects, commonPrefixes, nextCursor } = await adapter.listObjects();
+    expect(objects.map((object) => object.key)).toEqual(KEYS);
+    expect(objects[0]).toMatchObject({ key: "a.txt", contentType: "text/plain", size: 5 });
+    expect(commonPrefixes).toEqual([]);
+    expect(nextCursor).toBeUndefined();
+  });
+
+  it("groups keys by delimiter", async () => {
+    expect(await adapter.listObjects({ delimiter: "/" })).toEqual({
+      objects: [expect.objectContaining({ key: "a.txt" }), expect.objectContaining({ key: "z.txt" })],
+      commonPrefixes: ["docs-old/", "docs/"],
+    });
+    const docs = await adapter.listObjects({ prefix: "docs/", delimiter: "/" });
+    expect(docs.objects.map((object) => object.key)).toEqual(["docs/1.txt", "docs/2.txt"]);
+    expect(docs.commonPrefixes).toEqual(["docs/sub/"]);
+  });
+
+  it("pages through objects with cursor", async () => {
+    expect(await listAll({ limit: 3 })).toEqual([KEYS.slice(0, 3), KEYS.slice(3, 6), KEYS.slice(6)]);
+    expect(await listAll({ prefix: "docs/", limit: 2 })).toEqual([["docs/1.txt", "docs/2.txt"], ["docs/sub/3.txt", "docs/sub/4.txt"]]);
+  });
+
+  it("skips whole common prefix when it ends the page", async () => {
+    expect(await listAll({ delimiter: "/", limit: 2 })).toEqual([["a.txt", "docs-old/"], ["z.txt", "docs/"]]);
+    expect(await listAll({ prefix: "docs/", delimiter: "/", limit: 1 })).toEqual([["docs/1.txt"], ["docs/2.txt"], ["docs/sub/"]]);
+  });
+
+  it("does not list objects outside of prefix", async () => {
+    expect(await listAll({ prefix: "docs", delimiter: "/" })).toEqual([["docs-old/", "docs/"]]);
+    expect((await adapter.listObjects({ prefix: "nothing/" })).objects).toEqual([]);
+  });
+
+  it("rejects invalid limit", async () => {
+    await expect(adapter.listObjects({ limit: 0 })).rejects.toThrow("limit should be a positive integer");
+  });
+
+  it("reports usage with objects pending deletion", async () => {
+    for (const key of KEYS.slice(0, 5)) {
+      await adapter.markKeyForNotDeletion(key);
+    }
+    expect(await adapter.getUsage()).toEqual({ objects: 7, bytes: 72, pendingDeletionObjects: 2, pendingDeletionBytes: 19 });
+    expect(await adapter.getUsage("docs/sub/")).toEqual({ objects: 2, bytes: 28, pendingDeletionObjects: 1, pendingDeletionBytes: 14 });
+  });
+});
@@ -0,0 +1,81 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { Readable } from "stream";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import AdminForthStorageAdapterLocalFilesystem from "../index.js";
+
+describe("server-side object API", () => {
+  let folder: string;
+  let adapter: AdminForthStorageAdapterLocalFilesystem;
+
+  beforeEach(async () => {
+    folder = await fs.mkdtemp(path.join(os.tmpdir(), "storage-local-test-"));
+    adapter = new AdminForthStorageAdapterLocalFilesystem({
+      fileSystemFolder: path.join(folder, "files"),
+      signingSecret: "test-secret",
+    });
+    await adapter.setupLifecycle("test");
+  });
+
+  afterEach(async () => {
+    await adapter?.dispose();
+    await fs.rm(folder, { recursive: true, force: true });
+  });
+
+  async function readObject(key: string) {
+    const chunks: Buffer[] = [];
+    for await (const chunk of await adapter.getObjectStream(key)) {
+      chunks.push(chunk);
+    }
+    return Buffer.concat(chunks).toString();
+  }
+
+  it("puts, reads and deletes objects", async () => {
+    await adapter.putObject("docs/a.txt", Buffer.from("hello"), "text/plain");
+    await adapter.putObject("docs/b.txt", Readable.from([Buffer.from("wor"), Buffer.from("ld")]), "text/plain");
+
+    expect(await adapter.headObject("docs/a.txt")).toMatchObject({ contentType: "text/plain", size: 5 });
+    expect(await readObject("docs/a.txt")).toBe("hello");
+    expect(await readObject("docs/b.txt")).toBe("world");
+
+    await adapter.deleteObject("docs/a.txt");
+    expect(await adapter.headObject("docs/a.txt")).toBeNull();
+    await expect(adapter.getObjectStream("docs/a.txt")).rejects.toThrow("File not found");
+    // deleting missing object is not an error
+    await adapter.deleteObject("docs/a.txt");
+    expect(await readObject("docs/b.txt")).toBe("world");
+  });
+
+  it("marks written object for deletion until it is committed", async () => {
+    await adapter.putObject("a.txt", Buffer.from("hello"), "text/plain");
+    expect(await adapter["metadataStore"].getCandidate("a.txt")).toBeTypeOf("number");
+    await adapter.markKeyForNotDeletion("a.txt");
+    expect(await adapter["metadataStore"].getCandidate("a.txt")).toBeUndefined();
+  });
+
+  it("refuses to overwrite existing object", async () => {
+    await adapter.putObject("a.txt", Buffer.from("hello"), "text/plain");
+    await expect(adapter.putObject("a.txt", Buffer.from("other"), "text/plain")).rejects.toMatchObject({ status: 409 });
+    expect(await readObject("a.txt")).toBe("hello");
+  });
+
+  it("leaves nothing behind when source stream fails", async () => {
+    const body = Readable.from((async function* () {
+      yield Buffer.from("partial");
+      throw new Error("connection reset");
+    })());
+    await expect(adapter.putObject("a.txt", body, "text/plain")).rejects.toThrow("connection reset");
+
+    expect(await adapter.headObject("a.txt")).toBeNull();
+    await expect(fs.access(path.join(folder, "files", "a.txt"))).rejects.toMatchObject({ code: "ENOENT" });
+    expect(await fs.readdir(adapter["stagingFolder"])).toEqual([]);
+    await adapter.putObject("a.txt", Buffer.from("hello"), "text/plain");
+  });
+
+  it("rejects keys outside of storage folder", async () => {
+    await expect(adapter.putObject("../a.txt", Buffer.from("hello"), "text/plain")).rejects.toThrow("Invalid key");
+    await expect(adapter.getObjectStream("docs/../../a.txt")).rejects.toThrow("Invalid key");
+    await expect(adapter.deleteObject("../a.txt")).rejects.toThrow("Invalid key");
+  });
+});
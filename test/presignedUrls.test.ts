@@ -0,0 +1,91 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import AdminForthStorageAdapterLocalFilesystem from "../index.js";
+
+type Options = ConstructorParameters<typeof AdminForthStorageAdapterLocalFilesystem>[0];
+
+describe("presigned URLs", () => {
+  let folder: string;
+  let adapter: AdminForthStorageAdapterLocalFilesystem;
+
+  beforeEach(async () => {
+    folder = await fs.mkdtemp(path.join(os.tmpdir(), "storage-local-test-"));
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await adapter?.dispose();
+    await fs.rm(folder, { recursive: true, force: true });
+  });
+
+  async function setup(options: Partial<Options> = {}) {
+    adapter = new AdminForthStorageAdapterLocalFilesystem({
+      fileSystemFolder: path.join(folder, "files"),
+      signingSecret: "test-secret",
+      ...options,
+    });
+    await adapter.setupLifecycle("test");
+  }
+
+  async function signedQuery(key: string, options = {}) {
+    return adapter.parseKeyWithQuery(await adapter.getDownloadUrl(key, 60, options)).query;
+  }
+
+  it("checks signature synchronously", async () => {
+    await setup();
+    const query = await signedQuery("a.txt");
+    expect(adapter.verifyPresignedAccess("a.txt", query)).toEqual({ ok: true });
+    expect(adapter.verifyPresignedAccess("b.txt", query)).toEqual({ ok: false, message: "Invalid signature" });
+    expect(adapter.verifyPresignedAccess("a.txt", new URLSearchParams())).toEqual({ ok: false, message: "Missing signature" });
+
+    vi.spyOn(Date, "now").mockReturnValue(Date.now() + 61 * 1000);
+    expect(adapter.verifyPresignedAccess("a.txt", query)).toEqual({ ok: false, message: "Signature expired" });
+  });
+
+  it("accepts signature of old versions which signed only the key", async () => {
+    await setup();
+    const expires = Math.floor(Date.now() / 1000) + 60;
+    const query = { expires: expires.toString(), signature: adapter.sign("a.txt", expires) };
+    expect(adapter.verifyPresignedAccess("a.txt", query)).toEqual({ ok: true });
+    expect(await adapter.verifyPresignedAccessAsync("a.txt", query)).toEqual({ ok: true });
+  });
+
+  it("checks revocations asynchronously", async () => {
+    await setup();
+    const query = await signedQuery("a.txt");
+    const other = await signedQuery("b.txt");
+    vi.spyOn(Date, "now").mockReturnValue(Date.now() + 1000);
+    await adapter.revokeKey("a.txt");
+
+    expect(await adapter.verifyPresignedAccessAsync("a.txt", query)).toEqual({ ok: false, message: "Signature revoked" });
+    expect(await adapter.verifyPresignedAccessAsync("b.txt", other)).toEqual({ ok: true });
+    expect(await adapter.verifyPresignedAccessAsync("a.txt", await signedQuery("a.txt"))).toEqual({ ok: true });
+
+    vi.spyOn(Date, "now").mockReturnValue(Date.now() + 2000);
+    await adapter.revokeUrlsIssuedBefore(new Date(Date.now()));
+    expect(await adapter.verifyPresignedAccessAsync("b.txt", other)).toEqual({ ok: false, message: "Signature revoked" });
+  });
+
+  it("uses up single-use URL only in asynchronous check", async () => {
+    await setup();
+    const query = await signedQuery("a.txt", { singleUse: true });
+    expect(adapter.verifyPresignedAccess("a.txt", query)).toMatchObject({ ok: false });
+    expect(await adapter.verifyPresignedAccessAsync("a.txt", query, false)).toEqual({ ok: true });
+    expect(await adapter.verifyPresignedAccessAsync("a.txt", query)).toEqual({ ok: true });
+    expect(await adapter.verifyPresignedAccessAsync("a.txt", query)).toEqual({ ok: false, message: "Link was already used" });
+  });
+
+  it("accepts URLs signed by any configured key", async () => {
+    await setup({ signingSecret: undefined, signingKeys: { k1: "secret-1", k2: "secret-2" }, currentSigningKeyId: "k1" });
+    const query = await signedQuery("a.txt");
+    expect(query.get("kid")).toBe("k1");
+    expect(adapter.verifyPresignedAccess("a.txt", query)).toEqual({ ok: true });
+
+    query.set("kid", "k2");
+    expect(adapter.verifyPresignedAccess("a.txt", query)).toEqual({ ok: false, message: "Invalid signature" });
+    query.set("kid", "k3");
+    expect(adapter.verifyPresignedAccess("a.txt", query)).toEqual({ ok: false, message: "Unknown signing key" });
+  });
+});
@@ -0,0 +1,101 @@
+import fs from "fs/promises";
+import http from "http";
+import type { AddressInfo } from "net";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import AdminForthStorageAdapterLocalFilesystem from "../index.js";
+import type { QuotaOptions } from "../index.js";
+
+describe("quota", () => {
+  let folder: string;
+  let adapter: AdminForthStorageAdapterLocalFilesystem;
+
+  beforeEach(async () => {
+    folder = await fs.mkdtemp(path.join(os.tmpdir(), "storage-local-test-"));
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await adapter?.dispose();
+    await fs.rm(folder, { recursive: true, force: true });
+  });
+
+  async function setup(quota: QuotaOptions, options: { metadataStore?: "level" | "sidecar" | "sqlite" } = {}) {
+    adapter = new AdminForthStorageAdapterLocalFilesystem({
+      fileSystemFolder: path.join(folder, "files"),
+      signingSecret: "test-secret",
+      quota,
+      ...options,
+    });
+    await adapter.setupLifecycle("test");
+  }
+
+  it("rejects objects which exceed the limit and frees space on delete", async () => {
+    await setup({ maxBytes: 10 });
+    await adapter.putObject("a.txt", Buffer.from("123456"), "text/plain");
+    await expect(adapter.putObject("b.txt", Buffer.from("12345"), "text/plain")).rejects.toMatchObject({ status: 507 });
+    expect(await adapter.headObject("b.txt")).toBeNull();
+    expect(await adapter.getQuotaUsage("")).toBe(6);
+
+    await adapter.putObject("b.txt", Buffer.from("1234"), "text/plain");
+    expect(await adapter.getRemainingQuota("c.txt")).toBe(0);
+    await adapter.deleteObject("a.txt");
+    expect(await adapter.getRemainingQuota("c.txt")).toBe(6);
+  });
+
+  it("applies the strictest of matching rules", async () => {
+    await setup({ maxBytes: 100, prefixes: [{ prefix: "tenants/1/", maxBytes: 5 }] });
+    await adapter.putObject("tenants/1/a.txt", Buffer.from("12345"), "text/plain");
+    await expect(adapter.putObject("tenants/1/b.txt", Buffer.from("1"), "text/plain")).rejects.toMatchObject({ status: 507 });
+    await adapter.putObject("tenants/2/a.txt", Buffer.from("1234567890"), "text/plain");
+    expect(await adapter.getRemainingQuota("tenants/2/b.txt")).toBe(85);
+    expect(await adapter.getRemainingQuota("tenants/1/b.txt")).toBe(0);
+  });
+
+  it("uses limit from the resolver", async () => {
+    await setup({ resolve: (key) => ({ prefix: key.split("/")[0] + "/", maxBytes: 3 }) });
+    await adapter.putObject("x/a.txt", Buffer.from("123"), "text/plain");
+    await expect(adapter.putObject("x/b.txt", Buffer.from("1"), "text/plain")).rejects.toMatchObject({ status: 507 });
+    await adapter.putObject("y/b.txt", Buffer.from("1"), "text/plain");
+  });
+
+  it.each(["level", "sidecar", "sqlite"] as const)("does not lose changes made while %s counter is initialized", async (metadataStore) => {
+    await setup({ maxBytes: 100 }, { metadataStore });
+    await adapter.putObject("a.txt", Buffer.from("12345"), "text/plain");
+    await adapter["metadataStore"].resetUsageCounters();
+    const getUsage = adapter.getUsage.bind(adapter);
+    vi.spyOn(adapter, "getUsage").mockImplementation(async (prefix) => {
+      const usage = await getUsage(prefix);
+      // give deletion a chance to run between counting and storing the counter
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      return usage;
+    });
+    await Promise.all([adapter.getRemainingQuota("b.txt"), adapter.deleteObject("a.txt")]);
+    vi.restoreAllMocks();
+    expect(await adapter.getQuotaUsage("")).toBe(0);
+  });
+
+  it("keeps counters in sidecar store", async () => {
+    await setup({ maxBytes: 10 }, { metadataStore: "sidecar" });
+    await adapter.putObject("a.txt", Buffer.from("1234567890"), "text/plain");
+    await expect(adapter.putObject("b.txt", Buffer.from("1"), "text/plain")).rejects.toMatchObject({ status: 507 });
+  });
+
+  it("rejects upload by presigned URL with 507", async () => {
+    await setup({ maxBytes: 10 });
+    const { uploadUrl } = await adapter.getUploadSignedUrl("a.txt", "text/plain", 60);
+    const server = http.createServer(adapter.getRequestHandler());
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    try {
+      const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      const res = await fetch(base + uploadUrl, { method: "PUT", body: "12345678901", headers: { "Content-Type": "text/plain" } });
+      expect(res.status).toBe(507);
+      expect(await adapter.headObject("a.txt")).toBeNull();
+      await expect(adapter.getUploadSignedUrl("b.txt", "text/plain", 60, { contentLength: 11 })).rejects.toThrow("quota");
+    } finally {
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});
@@ -0,0 +1,119 @@
+import fs from "fs/promises";
+import http from "http";
+import type { AddressInfo } from "net";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import AdminForthStorageAdapterLocalFilesystem from "../index.js";
+import type { AccessLogEntry, RateLimitOptions } from "../index.js";
+
+describe("rate limit options", () => {
+  it.each([
+    { perIp: { requests: 0, interval: 60 } },
+    { perUrl: { requests: 1, interval: 0 } },
+    { bandwidthPerIp: -1 },
+  ])("rejects %j", (rateLimit) => {
+    expect(() => new AdminForthStorageAdapterLocalFilesystem({
+      fileSystemFolder: path.join(os.tmpdir(), "storage-local-test-unused"),
+      signingSecret: "test-secret",
+      rateLimit,
+    })).toThrow("Rate limit");
+  });
+});
+
+describe("rate limit", () => {
+  let folder: string;
+  let adapter: AdminForthStorageAdapterLocalFilesystem;
+  let server: http.Server;
+  let base: string;
+  let accessLog: AccessLogEntry[];
+
+  beforeEach(async () => {
+    folder = await fs.mkdtemp(path.join(os.tmpdir(), "storage-local-test-"));
+    accessLog = [];
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+    await adapter.dispose();
+    await fs.rm(folder, { recursive: true, force: true });
+  });
+
+  async function setup(rateLimit: RateLimitOptions) {
+    adapter = new AdminForthStorageAdapterLocalFilesystem({
+      fileSystemFolder: path.join(folder, "files"),
+      signingSecret: "test-secret",
+      rateLimit,
+      accessLog: (entry) => accessLog.push(entry),
+    });
+    await adapter.setupLifecycle("test");
+    await adapter.putObject("a.bin", Buffer.alloc(40 * 1024, 7), "application/octet-stream");
+    await adapter.putObject("b.bin", Buffer.from("b"), "application/octet-stream");
+    server = http.createServer(adapter.getRequestHandler());
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  }
+
+  async function get(key: string, headers: Record<string, string> = {}): Promise<Response> {
+    const res = await fetch(base + await adapter.getDownloadUrl(key, 60), { headers });
+    await res.arrayBuffer();
+    return res;
+  }
+
+  it("limits requests per IP in fixed windows", async () => {
+    await setup({ perIp: { requests: 2, interval: 60 } });
+    expect((await get("a.bin")).status).toBe(200);
+    expect((await get("b.bin")).status).toBe(200);
+    const limited = await get("b.bin");
+    expect(limited.status).toBe(429);
+    expect(Number(limited.headers.get("retry-after"))).toBeGreaterThan(0);
+    expect(Number(limited.headers.get("retry-after"))).toBeLessThanOrEqual(60);
+
+    // entry is written when the response is finished, which might be after the client got it
+    await vi.waitFor(() => expect(accessLog).toHaveLength(3));
+    expect(accessLog.map((entry) => entry.status).sort()).toEqual([200, 200, 429]);
+    expect(adapter.getMetrics()).toContain('adminforth_storage_rate_limited_total{limit="ip"} 1');
+  });
+
+  it("starts new window after the interval", async () => {
+    await setup({ perIp: { requests: 1, interval: 60 } });
+    vi.useFakeTimers({ toFake: ["Date"] });
+    expect((await get("b.bin")).status).toBe(200);
+    expect((await get("b.bin")).status).toBe(429);
+    vi.setSystemTime(Date.now() + 61 * 1000);
+    expect((await get("b.bin")).status).toBe(200);
+  });
+
+  it("takes client IP from X-Forwarded-For only behind proxy", async () => {
+    await setup({ perIp: { requests: 1, interval: 60 }, trustProxy: true });
+    expect((await get("b.bin", { "X-Forwarded-For": "10.0.0.1" })).status).toBe(200);
+    expect((await get("b.bin", { "X-Forwarded-For": "10.0.0.2" })).status).toBe(200);
+    // address set by the client before the proxy one is ignored
+    expect((await get("b.bin", { "X-Forwarded-For": "10.0.0.3, 10.0.0.1" })).status).toBe(429);
+    await vi.waitFor(() => expect(accessLog).toHaveLength(3));
+    expect(accessLog.map((entry) => entry.ip).sort()).toEqual(["10.0.0.1", "10.0.0.1", "10.0.0.2"]);
+  });
+
+  it("limits requests per presigned URL", async () => {
+    await setup({ perUrl: { requests: 1, interval: 60 } });
+    const url = await adapter.getDownloadUrl("b.bin", 60);
+    expect((await fetch(base + url)).status).toBe(200);
+    expect((await fetch(base + url)).status).toBe(429);
+    // another URL of the same key has its own counter
+    expect((await get("b.bin")).status).toBe(200);
+    expect(adapter.getMetrics()).toContain('adminforth_storage_rate_limited_total{limit="url"} 1');
+  });
+
+  it("throttles downloads to the bandwidth limit", async () => {
+    await setup({ bandwidthPerIp: 40 * 1024 });
+    const startedAt = Date.now();
+    const res = await get("a.bin");
+    expect(res.status).toBe(200);
+    // first 16 KB slice is sent at once, the rest waits for its share of the second
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(550);
+    await vi.waitFor(() => expect(accessLog).toHaveLength(1));
+    expect(accessLog[0].bytesOut).toBe(40 * 1024);
+  });
+});
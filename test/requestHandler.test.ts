@@ -0,0 +1,211 @@
+import fs from "fs/promises";
+import http from "http";
+import type { AddressInfo } from "net";
+import os from "os";
+import path from "path";
+import express4 from "express";
+import express5 from "express5";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type AdminForth from "adminforth";
+import AdminForthStorageAdapterLocalFilesystem, { type AdminForthRoutesHost } from "../index.js";
+
+type Mount = (adapter: AdminForthStorageAdapterLocalFilesystem) => http.RequestListener;
+
+// every app has its own fallback, so requests which the adapter passes through are visible in responses
+function mountExpress(express: typeof express4): Mount {
+  return (adapter) => {
+    const app = express();
+    app.use(adapter.expressMiddleware());
+    app.use((req, res) => {
+      res.status(404).send("fallback");
+    });
+    app.use((err, req, res, next) => {
+      res.status(500).send(`express error: ${err.message}`);
+    });
+    return app;
+  };
+}
+
+const mounts: [string, Mount][] = [
+  ["Express 4 middleware", mountExpress(express4)],
+  ["Express 5 middleware", mountExpress(express5 as unknown as typeof express4)],
+  ["plain request handler", (adapter) => adapter.getRequestHandler()],
+];
+
+describe.each(mounts)("%s", (name, mount) => {
+  let folder: string;
+  let adapter: AdminForthStorageAdapterLocalFilesystem;
+  let server: http.Server;
+  let base: string;
+
+  beforeEach(async () => {
+    folder = await fs.mkdtemp(path.join(os.tmpdir(), "storage-local-test-"));
+    adapter = new AdminForthStorageAdapterLocalFilesystem({
+      fileSystemFolder: path.join(folder, "files"),
+      signingSecret: "test-secret",
+    });
+    await adapter.setupLifecycle("test");
+    server = http.createServer(mount(adapter));
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    // responses which were not read keep their connections busy
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+    await adapter.dispose();
+    await fs.rm(folder, { recursive: true, force: true });
+  });
+
+  async function upload(key: string, body: string): Promise<Response> {
+    const { uploadUrl } = await adapter.getUploadSignedUrl(key, "text/plain", 60);
+    return fetch(base + uploadUrl, { method: "PUT", body, headers: { "Content-Type": "text/plain" } });
+  }
+
+  it("uploads by PUT and serves GET and HEAD", async () => {
+    expect((await upload("docs/a b.txt", "hello")).status).toBe(200);
+
+    const downloadUrl = await adapter.getDownloadUrl("docs/a b.txt", 60);
+    const get = await fetch(base + downloadUrl);
+    expect(get.status).toBe(200);
+    expect(get.headers.get("content-type")).toMatch(/^text\/plain/);
+    expect(await get.text()).toBe("hello");
+
+    const head = await fetch(base + downloadUrl, { method: "HEAD" });
+    expect(head.status).toBe(200);
+    expect(head.headers.get("content-length")).toBe("5");
+
+    const range = await fetch(base + downloadUrl, { headers: { Range: "bytes=1-3" } });
+    expect(range.status).toBe(206);
+    expect(await range.text()).toBe("ell");
+  });
+
+  it("uses up single-use URL only when content is sent", async () => {
+    const downloadUrl = await adapter.getDownloadUrl("a.txt", 60, { singleUse: true });
+    expect((await fetch(base + downloadUrl)).status).toBe(404);
+    await upload("a.txt", "hello");
+
+    const head = await fetch(base + downloadUrl, { method: "HEAD" });
+    expect(head.status).toBe(200);
+    const etag = head.headers.get("etag");
+    expect((await fetch(base + downloadUrl, { headers: { "If-None-Match": etag } })).status).toBe(304);
+    expect((await fetch(base + downloadUrl, { headers: { Range: "bytes=10-20" } })).status).toBe(416);
+
+    const get = await fetch(base + downloadUrl);
+    expect(get.status).toBe(200);
+    expect(await get.text()).toBe("hello");
+    const reused = await fetch(base + downloadUrl);
+    expect(reused.status).toBe(403);
+    expect(reused.headers.get("etag")).toBeNull();
+  });
+
+  it("rejects invalid signatures and keys", async () => {
+    await upload("a.txt", "hello");
+    const downloadUrl = await adapter.getDownloadUrl("a.txt", 60);
+    const tampered = downloadUrl.replace(/signature=[^&]+/, "signature=0000");
+    expect((await fetch(base + tampered)).status).toBe(403);
+
+    const invalidEncoding = await fetch(`${base}/uploaded-static/test/%E0%A4%A.txt`);
+    expect(invalidEncoding.status).toBe(400);
+
+    const unsupported = await fetch(base + downloadUrl, { method: "PROPFIND" });
+    expect(unsupported.status).toBe(405);
+  });
+
+  it("answers tus discovery by OPTIONS", async () => {
+    const { uploadUrl } = await adapter.getUploadSignedUrl("a.txt", "text/plain", 60, { maxSize: 1000 });
+    const res = await fetch(base + uploadUrl, { method: "OPTIONS" });
+    expect(res.status).toBe(204);
+    expect(res.headers.get("tus-version")).toBe("1.0.0");
+    expect(res.headers.get("tus-extension")).toBe("creation,termination,expiration");
+    expect(res.headers.get("tus-max-size")).toBe("1000");
+  });
+
+  it("passes requests outside of the base URL through", async () => {
+    const res = await fetch(`${base}/other/a.txt`);
+    expect(res.status).toBe(404);
+    if (name !== "plain request handler") {
+      expect(await res.text()).toBe("fallback");
+    }
+  });
+
+  it("passes requests through after dispose", async () => {
+    await upload("a.txt", "hello");
+    const downloadUrl = await adapter.getDownloadUrl("a.txt", 60);
+    await adapter.dispose();
+    const res = await fetch(base + downloadUrl);
+    expect(res.status).toBe(404);
+    if (name !== "plain request handler") {
+      expect(await res.text()).toBe("fallback");
+    }
+  });
+
+  it("does not expose upload errors", async () => {
+    const spy = vi.spyOn(adapter, "createWriteStream");
+    spy.mockRejectedValueOnce(Object.assign(new Error("EEXIST: file already exists, open '/secret/path'"), { code: "EEXIST" }));
+    const conflict = await upload("a.txt", "hello");
+    expect(conflict.status).toBe(409);
+    expect(await conflict.text()).toBe("File already exists");
+
+    spy.mockRejectedValueOnce(new Error("EACCES: permission denied, open '/secret/path'"));
+    const failed = await upload("a.txt", "hello");
+    expect(failed.status).toBe(500);
+    expect(await failed.text()).toBe("Could not create file");
+  });
+
+  it("responds with 500 if the handler fails", async () => {
+    vi.spyOn(adapter, "handleRequest").mockRejectedValueOnce(new Error("boom"));
+    const res = await fetch(`${base}/uploaded-static/test/a.txt`);
+    expect(res.status).toBe(500);
+    if (name !== "plain request handler") {
+      expect(await res.text()).toBe("express error: boom");
+    }
+  });
+});
+
+describe.each([
+  // Express 5 requires named wildcards
+  ["Express 4", express4, "*"],
+  ["Express 5", express5 as unknown as typeof express4, "/*splat"],
+])("automatic mounting into %s app of AdminForth", (name, express, wildcard) => {
+  let folder: string;
+
+  afterEach(async () => {
+    delete global.adminforth;
+    await fs.rm(folder, { recursive: true, force: true });
+  });
+
+  it("serves files under AdminForth base URL before routes registered earlier", async () => {
+    folder = await fs.mkdtemp(path.join(os.tmpdir(), "storage-local-test-"));
+    const app = express();
+    app.use(express.json());
+    // SPA fallback of AdminForth is registered by adminforth.express.serve(app), usually before adapters are set up
+    app.get(wildcard, (req, res) => {
+      res.send("spa");
+    });
+    const host: AdminForthRoutesHost = { config: { baseUrl: "/admin" }, express: { expressApp: app } };
+    global.adminforth = host as AdminForth;
+    const adapter = new AdminForthStorageAdapterLocalFilesystem({
+      fileSystemFolder: path.join(folder, "files"),
+      signingSecret: "test-secret",
+    });
+    await adapter.setupLifecycle("test");
+    const server = app.listen(0, "127.0.0.1");
+    await new Promise((resolve) => server.once("listening", resolve));
+    const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    try {
+      const { uploadUrl } = await adapter.getUploadSignedUrl("a.txt", "text/plain", 60);
+      expect(uploadUrl.startsWith("/admin/uploaded-static/test/a.txt?")).toBe(true);
+      const put = await fetch(base + uploadUrl, { method: "PUT", body: "hello", headers: { "Content-Type": "text/plain" } });
+      expect(put.status).toBe(200);
+      const get = await fetch(base + await adapter.getDownloadUrl("a.txt", 60));
+      expect(await get.text()).toBe("hello");
+      expect(await (await fetch(`${base}/admin/resource/users`)).text()).toBe("spa");
+    } finally {
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+      await adapter.dispose();
+    }
+  });
+});
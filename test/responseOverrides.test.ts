@@ -0,0 +1,103 @@
+import fs from "fs/promises";
+import http from "http";
+import type { AddressInfo } from "net";
+import os from "os";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import AdminForthStorageAdapterLocalFilesystem from "../index.js";
+import type { ResponseOverrides } from "../index.js";
+
+describe("response overrides", () => {
+  let folder: string;
+  let adapter: AdminForthStorageAdapterLocalFilesystem;
+  let server: http.Server;
+  let base: string;
+
+  beforeAll(async () => {
+    folder = await fs.mkdtemp(path.join(os.tmpdir(), "storage-local-test-"));
+    adapter = new AdminForthStorageAdapterLocalFilesystem({
+      fileSystemFolder: path.join(folder, "files"),
+      signingSecret: "test-secret",
+    });
+    await adapter.setupLifecycle("test");
+    await adapter.putObject("report.txt", Buffer.from("hello"), "text/plain", { originalFilename: "report.txt" });
+    await adapter.putObject("page.html", Buffer.from("<html></html>"), "text/html");
+    server = http.createServer(adapter.getRequestHandler());
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+    await adapter.dispose();
+    await fs.rm(folder, { recursive: true, force: true });
+  });
+
+  async function get(url: string) {
+    const res = await fetch(base + url);
+    // body is read, so no response is left in progress when server is closed
+    return { status: res.status, headers: res.headers, body: await res.text() };
+  }
+
+  it("serves stored filename inline by default", async () => {
+    const res = await get(await adapter.getDownloadUrl("report.txt", 60));
+    expect(res.headers.get("content-disposition")).toBe(`inline; filename="report.txt"; filename*=UTF-8''report.txt`);
+    expect(res.headers.get("content-type")).toBe("text/plain");
+  });
+
+  it("applies signed overrides", async () => {
+    const res = await get(await adapter.getDownloadUrl("report.txt", 60, {
+      responseContentDisposition: "attachment",
+      responseFilename: "отчёт (1).txt",
+      responseContentType: "application/octet-stream",
+      responseCacheControl: "no-store",
+    }));
+    expect(res.status).toBe(200);
+    expect(res.headers.get("content-disposition"))
+      .toBe(`attachment; filename="_____ (1).txt"; filename*=UTF-8''%D0%BE%D1%82%D1%87%D1%91%D1%82%20%281%29.txt`);
+    expect(res.headers.get("content-type")).toBe("application/octet-stream");
+    expect(res.headers.get("cache-control")).toBe("no-store");
+  });
+
+  it.each([
+    ["changed", (url: string) => url.replace("response-content-disposition=attachment", "response-content-disposition=inline")],
+    ["removed", (url: string) => url.replace(/response-content-type=[^&]+&?/, "")],
+    ["added", (url: string) => `${url}&response-cache-control=public`],
+  ])("rejects URL with %s override", async (name, tamper) => {
+    const url = await adapter.getDownloadUrl("report.txt", 60, {
+      responseContentDisposition: "attachment",
+      responseContentType: "application/octet-stream",
+    });
+    const res = await get(tamper(url));
+    expect(res.status).toBe(403);
+    expect(res.body).toBe("Invalid signature");
+  });
+
+  it("never serves active content inline", async () => {
+    const res = await get(await adapter.getDownloadUrl("page.html", 60, { responseContentDisposition: "inline" }));
+    expect(res.headers.get("content-disposition")).toBe("attachment");
+    expect(res.headers.get("x-content-type-options")).toBe("nosniff");
+    const overridden = await get(await adapter.getDownloadUrl("report.txt", 60, { responseContentType: "text/html" }));
+    expect(overridden.headers.get("content-disposition")).toMatch(/^attachment;/);
+  });
+
+  it.each([
+    [{ responseContentDisposition: "download" }, "responseContentDisposition should be"],
+    [{ responseContentType: "text/html\r\nX-Injected: 1" }, "Invalid responseContentType"],
+    [{ responseCacheControl: "no-store\n" }, "Invalid responseCacheControl"],
+    [{ responseFilename: "a\u0000.txt" }, "Filename should be"],
+  ])("refuses to sign invalid override %j", async (overrides, message) => {
+    await expect(adapter.getDownloadUrl("report.txt", 60, overrides as ResponseOverrides)).rejects.toThrow(message);
+  });
+
+  it("refuses overrides in public mode", async () => {
+    const publicAdapter = new AdminForthStorageAdapterLocalFilesystem({
+      fileSystemFolder: path.join(folder, "public"),
+      signingSecret: "test-secret",
+      mode: "public",
+    });
+    await expect(publicAdapter.getDownloadUrl("report.txt", 60, { responseContentDisposition: "attachment" }))
+      .rejects.toThrow("can't be used in public mode");
+  });
+});
@@ -0,0 +1,120 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { Level } from "level";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { migrateLevelMetadata } from "../levelMetadataStore.js";
+import { SidecarMetadataStore } from "../sidecarMetadataStore.js";
+
+const METADATA = { contentType: "text/plain", createdAt: 1700000000000, size: 5 };
+
+describe("SidecarMetadataStore", () => {
+  let folder: string;
+  let store: SidecarMetadataStore;
+
+  beforeEach(async () => {
+    folder = await fs.mkdtemp(path.join(os.tmpdir(), "storage-local-test-"));
+    store = new SidecarMetadataStore(path.join(folder, "files"), [], path.join(folder, "state"));
+    await store.open();
+  });
+
+  afterEach(async () => {
+    await store.close();
+    await fs.rm(folder, { recursive: true, force: true });
+  });
+
+  it("keeps metadata and candidates next to objects", async () => {
+    await store.putMetadata("docs/a.txt", METADATA);
+    await store.putCandidate("docs/a.txt", 1700000000001);
+    expect(await store.getMetadata("docs/a.txt")).toEqual(METADATA);
+    expect(await store.getCandidate("docs/a.txt")).toBe(1700000000001);
+    expect(await fs.readdir(path.join(folder, "files", "docs"))).toEqual(["a.txt.afdelete.json", "a.txt.afmeta.json"]);
+    expect(await store.getMetadata("docs/b.txt")).toBeUndefined();
+  });
+
+  it.each(["../a.txt", "docs/../../a.txt", "..", ""])("rejects key %j outside of the folder", async (key) => {
+    await expect(store.putMetadata(key, METADATA)).rejects.toThrow("Invalid key");
+    await expect(store.getMetadata(key)).rejects.toThrow("Invalid key");
+    expect(await fs.readdir(folder)).not.toContain("a.txt.afmeta.json");
+  });
+
+  it("rejects sidecar files with invalid content", async () => {
+    await fs.mkdir(path.join(folder, "files"), { recursive: true });
+    await fs.writeFile(path.join(folder, "files", "a.txt.afmeta.json"), JSON.stringify({ contentType: "text/plain" }));
+    await fs.writeFile(path.join(folder, "files", "a.txt.afdelete.json"), JSON.stringify("soon"));
+    await expect(store.getMetadata("a.txt")).rejects.toThrow("Invalid content");
+    await expect(store.getCandidate("a.txt")).rejects.toThrow("Invalid content");
+  });
+
+  describe("usage lock", () => {
+    async function createStaleLock() {
+      const lockPath = path.join(folder, "state", "usage", "usage.lock");
+      await fs.mkdir(path.dirname(lockPath), { recursive: true });
+      await fs.writeFile(lockPath, "12345");
+      const minuteAgo = new Date(Date.now() - 60 * 1000);
+      await fs.utimes(lockPath, minuteAgo, minuteAgo);
+      return lockPath;
+    }
+
+    it("takes over lock left by crashed process", async () => {
+      await createStaleLock();
+      await store.initUsageCounter("", 10);
+      await store.addToUsageCounter("", 5);
+      expect(await store.getUsageCounter("")).toBe(15);
+      expect(await fs.readdir(path.join(folder, "state", "usage"))).toHaveLength(1);
+    });
+
+    it("keeps updates of processes which found the same stale lock", async () => {
+      await createStaleLock();
+      const other = new SidecarMetadataStore(path.join(folder, "files"), [], path.join(folder, "state"));
+      await store.initUsageCounter("", 0);
+      await Promise.all(Array.from({ length: 20 }, (_, i) => (i % 2 ? store : other).addToUsageCounter("", 1)));
+      expect(await store.getUsageCounter("")).toBe(20);
+    });
+
+    it("gives back lock which was acquired again after stale one was found", async () => {
+      const lockPath = await createStaleLock();
+      const stale = await fs.stat(lockPath);
+      // another process took the stale lock over and acquired it again
+      await fs.unlink(lockPath);
+      await fs.writeFile(lockPath, "67890");
+      await store["takeOverStaleLock"](lockPath, stale);
+      expect(await fs.readFile(lockPath, "utf-8")).toBe("67890");
+      expect(await fs.readdir(path.dirname(lockPath))).toEqual(["usage.lock"]);
+    });
+  });
+});
+
+describe("migrateLevelMetadata", () => {
+  let folder: string;
+
+  beforeEach(async () => {
+    folder = await fs.mkdtemp(path.join(os.tmpdir(), "storage-local-test-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(folder, { recursive: true, force: true });
+  });
+
+  it("copies records and opens only existing databases", async () => {
+    const internalFolder = path.join(folder, "files", "instance");
+    const metadataDb = new Level(path.join(internalFolder, "metadata"));
+    await metadataDb.put("a.txt", JSON.stringify(METADATA));
+    await metadataDb.close();
+
+    const target = new SidecarMetadataStore(path.join(folder, "files"), [internalFolder]);
+    expect(await migrateLevelMetadata(internalFolder, target)).toBe(1);
+    expect(await target.getMetadata("a.txt")).toEqual(METADATA);
+    expect((await fs.readdir(internalFolder)).sort()).toEqual(["level-migrated", "metadata"]);
+    // second start does not copy again
+    expect(await migrateLevelMetadata(internalFolder, target)).toBe(0);
+  });
+
+  it("does nothing without Level databases", async () => {
+    const internalFolder = path.join(folder, "instance");
+    await fs.mkdir(internalFolder);
+    const target = new SidecarMetadataStore(path.join(folder, "files"), [internalFolder]);
+    expect(await migrateLevelMetadata(internalFolder, target)).toBe(0);
+    expect(await fs.readdir(internalFolder)).toEqual([]);
+  });
+});
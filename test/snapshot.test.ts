@@ -0,0 +1,160 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import AdminForthStorageAdapterLocalFilesystem from "../index.js";
+
+describe("snapshot", () => {
+  let folder: string;
+  let snapshotFolder: string;
+  let source: AdminForthStorageAdapterLocalFilesystem;
+  let target: AdminForthStorageAdapterLocalFilesystem;
+
+  beforeEach(async () => {
+    folder = await fs.mkdtemp(path.join(os.tmpdir(), "storage-local-test-"));
+    snapshotFolder = path.join(folder, "snapshot");
+    source = new AdminForthStorageAdapterLocalFilesystem({
+      fileSystemFolder: path.join(folder, "source"),
+      signingSecret: "test-secret",
+    });
+    // snapshot is plaintext, so it can be imported into encrypted storage
+    target = new AdminForthStorageAdapterLocalFilesystem({
+      fileSystemFolder: path.join(folder, "target"),
+      signingSecret: "test-secret",
+      metadataStore: "sidecar",
+      encryption: { keys: { k1: Buffer.alloc(32, 1) }, currentKeyId: "k1" },
+    });
+    await source.setupLifecycle("test");
+    await target.setupLifecycle("test");
+    await source.putObject("docs/a.txt", Buffer.from("hello"), "text/plain", {
+      originalFilename: "A.txt",
+      userMetadata: { author: "1" },
+      tags: { kind: "doc" },
+    });
+    await source.markKeyForNotDeletion("docs/a.txt");
+    // stays marked for deletion
+    await source.putObject("tmp/b.bin", Buffer.from([1, 2, 3]), "application/octet-stream");
+  });
+
+  afterEach(async () => {
+    await source.dispose();
+    await target.dispose();
+    await fs.rm(folder, { recursive: true, force: true });
+  });
+
+  async function readText(adapter: AdminForthStorageAdapterLocalFilesystem, key: string): Promise<string> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of await adapter.getObjectStream(key)) {
+      chunks.push(chunk);
+    }
+    return Buffer.concat(chunks).toString();
+  }
+
+  it("exports and imports objects with metadata and deletion state", async () => {
+    expect(await source.exportSnapshot(snapshotFolder)).toMatchObject({ objects: 2, copied: 2, failed: [] });
+    expect(await fs.readFile(path.join(snapshotFolder, "objects", "docs", "a.txt"), "utf8")).toBe("hello");
+
+    expect(await target.importSnapshot(snapshotFolder)).toMatchObject({ objects: 2, copied: 2, failed: [] });
+    expect(await readText(target, "docs/a.txt")).toBe("hello");
+    const sourceMetadata = await source.headObject("docs/a.txt");
+    const metadata = await target.headObject("docs/a.txt");
+    expect(metadata).toMatchObject({
+      contentType: "text/plain",
+      createdAt: sourceMetadata.createdAt,
+      sha256: sourceMetadata.sha256,
+      originalFilename: "A.txt",
+      userMetadata: { author: "1" },
+      tags: { kind: "doc" },
+      encryption: { keyId: "k1" },
+    });
+    const targetList = await target.listObjects();
+    expect(targetList.objects.map((object) => object.key)).toEqual(["docs/a.txt", "tmp/b.bin"]);
+
+    // deletion state survives the round trip
+    await target.exportSnapshot(path.join(folder, "roundtrip"));
+    const manifest = JSON.parse(await fs.readFile(path.join(folder, "roundtrip", "manifest.json"), "utf8"));
+    expect(manifest.objects.map((object) => [object.key, object.candidateCreatedAt !== undefined])).toEqual([
+      ["docs/a.txt", false],
+      ["tmp/b.bin", true],
+    ]);
+
+    // second import does not copy the same content again
+    expect(await target.importSnapshot(snapshotFolder)).toMatchObject({ copied: 0, unchanged: 2 });
+  });
+
+  it("exports only changes and removes deleted objects", async () => {
+    await source.exportSnapshot(snapshotFolder);
+    await source.deleteObject("tmp/b.bin");
+    await source.putObject("docs/c.txt", Buffer.from("new"), "text/plain");
+    expect(await source.exportSnapshot(snapshotFolder)).toMatchObject({ objects: 2, copied: 1, unchanged: 1, removed: 1 });
+    await expect(fs.access(path.join(snapshotFolder, "objects", "tmp"))).rejects.toThrow();
+    // manifest is written to a temp file and renamed
+    expect((await fs.readdir(snapshotFolder)).sort()).toEqual(["manifest.json", "objects"]);
+  });
+
+  it("exports again objects which files in the snapshot were changed", async () => {
+    await source.exportSnapshot(snapshotFolder);
+    // same size, so it can't be detected without hashing
+    await fs.writeFile(path.join(snapshotFolder, "objects", "docs", "a.txt"), "HELLO");
+    await fs.rm(path.join(snapshotFolder, "objects", "tmp", "b.bin"));
+
+    expect(await source.exportSnapshot(snapshotFolder)).toMatchObject({ objects: 2, copied: 2, unchanged: 0 });
+    expect(await fs.readFile(path.join(snapshotFolder, "objects", "docs", "a.txt"), "utf8")).toBe("hello");
+    expect(await source.verifySnapshot(snapshotFolder)).toMatchObject({ ok: 2, failed: [] });
+    expect(await source.exportSnapshot(snapshotFolder)).toMatchObject({ copied: 0, unchanged: 2 });
+  });
+
+  it("does not skip import of object which file was changed after its checksum was stored", async () => {
+    await source.exportSnapshot(snapshotFolder);
+    const filePath = path.join(folder, "source", "docs", "a.txt");
+    await fs.writeFile(filePath, "HELLO");
+    const metadata = await source.headObject("docs/a.txt");
+
+    const report = await source.importSnapshot(snapshotFolder, { prefix: "docs/" });
+    expect(report.failed).toEqual([{ key: "docs/a.txt", error: expect.stringContaining("already exists") }]);
+    expect(await readText(source, "docs/a.txt")).toBe("HELLO");
+    expect(await source.headObject("docs/a.txt")).toEqual(metadata);
+
+    expect(await source.importSnapshot(snapshotFolder, { prefix: "docs/", overwrite: true })).toMatchObject({ copied: 1, failed: [] });
+    expect(await readText(source, "docs/a.txt")).toBe("hello");
+    expect(await source.verifyObject("docs/a.txt")).toMatchObject({ status: "ok" });
+  });
+
+  it("imports only keys with prefix and does not overwrite different objects", async () => {
+    await source.exportSnapshot(snapshotFolder);
+    await target.putObject("docs/a.txt", Buffer.from("other"), "text/plain");
+
+    const report = await target.importSnapshot(snapshotFolder, { prefix: "docs/" });
+    expect(report).toMatchObject({ objects: 1, copied: 0 });
+    expect(report.failed).toEqual([{ key: "docs/a.txt", error: expect.stringContaining("already exists") }]);
+    expect(await readText(target, "docs/a.txt")).toBe("other");
+    expect(await target.headObject("tmp/b.bin")).toBeNull();
+
+    expect(await target.importSnapshot(snapshotFolder, { prefix: "docs/", overwrite: true })).toMatchObject({ copied: 1, failed: [] });
+    expect(await readText(target, "docs/a.txt")).toBe("hello");
+  });
+
+  it("verifies content of the snapshot", async () => {
+    await source.exportSnapshot(snapshotFolder);
+    expect(await source.verifySnapshot(snapshotFolder)).toEqual({ checked: 2, ok: 2, failed: [] });
+
+    await fs.writeFile(path.join(snapshotFolder, "objects", "docs", "a.txt"), "HELLO");
+    await fs.rm(path.join(snapshotFolder, "objects", "tmp", "b.bin"));
+    const report = await source.verifySnapshot(snapshotFolder);
+    expect(report).toMatchObject({ checked: 2, ok: 0 });
+    expect(report.failed.map(({ key, status }) => ({ key, status }))).toEqual([
+      { key: "docs/a.txt", status: "mismatch" },
+      { key: "tmp/b.bin", status: "missing" },
+    ]);
+    // corrupted object is not imported
+    const imported = await target.importSnapshot(snapshotFolder);
+    expect(imported.failed.map(({ key }) => key)).toEqual(["docs/a.txt", "tmp/b.bin"]);
+    expect(await target.headObject("docs/a.txt")).toBeNull();
+  });
+
+  it("rejects folders without snapshot", async () => {
+    await fs.mkdir(snapshotFolder);
+    await expect(target.importSnapshot(snapshotFolder)).rejects.toThrow("does not contain a storage snapshot");
+    await expect(target.verifySnapshot(snapshotFolder)).rejects.toThrow("does not contain a storage snapshot");
+  });
+});
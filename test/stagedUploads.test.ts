@@ -0,0 +1,79 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import AdminForthStorageAdapterLocalFilesystem from "../index.js";
+
+describe("staged uploads", () => {
+  let folder: string;
+  let adapter: AdminForthStorageAdapterLocalFilesystem;
+
+  beforeEach(async () => {
+    folder = await fs.mkdtemp(path.join(os.tmpdir(), "storage-local-test-"));
+    adapter = await createAdapter();
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await adapter?.dispose();
+    await fs.rm(folder, { recursive: true, force: true });
+  });
+
+  async function createAdapter() {
+    const created = new AdminForthStorageAdapterLocalFilesystem({
+      fileSystemFolder: path.join(folder, "files"),
+      signingSecret: "test-secret",
+      retentionPeriod: 60,
+    });
+    await created.setupLifecycle("test");
+    return created;
+  }
+
+  async function stage(content: string) {
+    const tempPath = path.join(adapter["stagingFolder"], `${crypto.randomUUID()}.tmp`);
+    await fs.writeFile(tempPath, content);
+    return tempPath;
+  }
+
+  it("sweeps file which was published but not committed before crash", async () => {
+    const filePath = path.join(folder, "files", "a.txt");
+    await adapter.publishStagedFile(await stage("partial"), filePath, "a.txt");
+    // process crashed before metadata was written
+    await adapter.dispose();
+    adapter = await createAdapter();
+
+    await expect(adapter.putObject("a.txt", Buffer.from("hello"), "text/plain")).rejects.toMatchObject({ status: 409 });
+    expect(await adapter["metadataStore"].getCandidate("a.txt")).toBeTypeOf("number");
+
+    const now = Date.now();
+    vi.spyOn(Date, "now").mockReturnValue(now + 61_000);
+    expect(await adapter.sweepDeletionCandidates()).toBe(1);
+    vi.restoreAllMocks();
+    await expect(fs.access(filePath)).rejects.toMatchObject({ code: "ENOENT" });
+
+    await adapter.putObject("a.txt", Buffer.from("hello"), "text/plain");
+    expect(await adapter.headObject("a.txt")).toMatchObject({ size: 5 });
+  });
+
+  it("removes file and deletion candidate when metadata can't be committed", async () => {
+    vi.spyOn(adapter["metadataStore"], "putMetadata").mockRejectedValueOnce(new Error("disk full"));
+    await expect(adapter.putObject("a.txt", Buffer.from("hello"), "text/plain")).rejects.toThrow("disk full");
+
+    await expect(fs.access(path.join(folder, "files", "a.txt"))).rejects.toMatchObject({ code: "ENOENT" });
+    expect(await adapter["metadataStore"].getCandidate("a.txt")).toBeUndefined();
+  });
+
+  it("keeps deletion candidate of object which was published first", async () => {
+    await adapter.putObject("a.txt", Buffer.from("hello"), "text/plain");
+    const candidate = await adapter["metadataStore"].getCandidate("a.txt");
+    expect(candidate).toBeTypeOf("number");
+
+    const tempPath = await stage("other");
+    await expect(adapter.publishStagedFile(tempPath, path.join(folder, "files", "a.txt"), "a.txt")).rejects.toMatchObject({ code: "EEXIST" });
+    expect(await adapter["metadataStore"].getCandidate("a.txt")).toBe(candidate);
+
+    await adapter.markKeyForNotDeletion("a.txt");
+    await expect(adapter.publishStagedFile(tempPath, path.join(folder, "files", "a.txt"), "a.txt")).rejects.toMatchObject({ code: "EEXIST" });
+    expect(await adapter["metadataStore"].getCandidate("a.txt")).toBeUndefined();
+  });
+});
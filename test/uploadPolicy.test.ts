@@ -0,0 +1,109 @@
+import fs from "fs/promises";
+import http from "http";
+import type { AddressInfo } from "net";
+import os from "os";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import AdminForthStorageAdapterLocalFilesystem from "../index.js";
+import type { UploadPolicy } from "../index.js";
+
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00, 0x00, 0x0d]);
+
+describe("upload policy", () => {
+  let folder: string;
+  let adapter: AdminForthStorageAdapterLocalFilesystem;
+  let server: http.Server;
+  let base: string;
+  let keyIndex = 0;
+
+  beforeAll(async () => {
+    folder = await fs.mkdtemp(path.join(os.tmpdir(), "storage-local-test-"));
+    adapter = new AdminForthStorageAdapterLocalFilesystem({
+      fileSystemFolder: path.join(folder, "files"),
+      signingSecret: "test-secret",
+    });
+    await adapter.setupLifecycle("test");
+    server = http.createServer(adapter.getRequestHandler());
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+    await adapter.dispose();
+    await fs.rm(folder, { recursive: true, force: true });
+  });
+
+  async function upload(
+    policy: UploadPolicy,
+    body: Buffer | ReadableStream,
+    { signedContentType = "text/plain", contentType = signedContentType, tamper = (url: string) => url } = {},
+  ) {
+    const key = `file-${keyIndex++}`;
+    const { uploadUrl } = await adapter.getUploadSignedUrl(key, signedContentType, 60, policy);
+    const res = await fetch(base + tamper(uploadUrl), {
+      method: "PUT",
+      body,
+      headers: { "Content-Type": contentType },
+      // streamed body is sent without Content-Length
+      ...(body instanceof ReadableStream ? { duplex: "half" } : {}),
+    } as RequestInit);
+    return { key, status: res.status, message: await res.text() };
+  }
+
+  function stream(...chunks: Buffer[]) {
+    return new ReadableStream({
+      start(controller) {
+        chunks.forEach((chunk) => controller.enqueue(chunk));
+        controller.close();
+      },
+    });
+  }
+
+  it("accepts body within limits", async () => {
+    const { key, status } = await upload({ minSize: 2, maxSize: 5 }, Buffer.from("hello"));
+    expect(status).toBe(200);
+    expect(await adapter.headObject(key)).toMatchObject({ size: 5 });
+  });
+
+  it.each([
+    ["declared body larger than maxSize", { maxSize: 4 }, () => Buffer.from("hello"), 413],
+    ["streamed body larger than maxSize", { maxSize: 4 }, () => stream(Buffer.from("hel"), Buffer.from("lo")), 413],
+    ["declared body smaller than minSize", { minSize: 6 }, () => Buffer.from("hello"), 400],
+    ["streamed body smaller than minSize", { minSize: 6 }, () => stream(Buffer.from("hello")), 400],
+    ["body of other length than contentLength", { contentLength: 4 }, () => Buffer.from("hello"), 400],
+    ["streamed body longer than contentLength", { contentLength: 4 }, () => stream(Buffer.from("hello")), 413],
+  ])("rejects %s", async (name, policy: UploadPolicy, body, status) => {
+    const result = await upload(policy, body());
+    expect(result.status).toBe(status);
+    expect(await adapter.headObject(result.key)).toBeNull();
+  });
+
+  it("checks content type against allowedContentTypes", async () => {
+    expect((await upload({ allowedContentTypes: ["image/*"] }, PNG, { signedContentType: "", contentType: "image/png" })).status).toBe(200);
+    expect((await upload({ allowedContentTypes: ["image/*"] }, Buffer.from("hello"), { signedContentType: "", contentType: "text/plain" })).status).toBe(400);
+    // signed content type can't be replaced by other one from the list
+    expect((await upload({ allowedContentTypes: ["text/*"] }, Buffer.from("a,b"), { signedContentType: "text/plain", contentType: "text/csv" })).status).toBe(400);
+  });
+
+  it("rejects policy changed in URL", async () => {
+    const result = await upload({ maxSize: 4 }, Buffer.from("hello"), { tamper: (url) => url.replace("maxSize=4", "maxSize=5") });
+    expect(result.status).toBe(403);
+    expect(await adapter.headObject(result.key)).toBeNull();
+  });
+
+  it.each([
+    [{ minSize: 5, maxSize: 4 }, "minSize is greater than maxSize"],
+    [{ maxSize: -1 }, "non-negative integer"],
+    [{ contentLength: 10, maxSize: 5 }, "out of minSize..maxSize range"],
+    [{ sha256: "abc" }, "hex encoded SHA-256"],
+  ])("refuses to sign invalid policy %j", async (policy: UploadPolicy, message) => {
+    await expect(adapter.getUploadSignedUrl("a.txt", "text/plain", 60, policy)).rejects.toThrow(message);
+  });
+
+  it("refuses to sign content type outside of allowedContentTypes", async () => {
+    await expect(adapter.getUploadSignedUrl("a.txt", "text/plain", 60, { allowedContentTypes: ["image/*"] }))
+      .rejects.toThrow("not allowed by upload policy");
+  });
+});
@@ -0,0 +1,142 @@
+import fs from "fs/promises";
+import http from "http";
+import type { AddressInfo } from "net";
+import os from "os";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import AdminForthStorageAdapterLocalFilesystem from "../index.js";
+import { MAX_TAGS, MAX_USER_METADATA_SIZE, userMetadataHeaders, validateTags, validateUserMetadata } from "../userMetadata.js";
+
+describe("user metadata validation", () => {
+  it("accepts metadata up to the size limit", () => {
+    // name and value are both counted
+    expect(() => validateUserMetadata({ a: "x".repeat(MAX_USER_METADATA_SIZE - 1) })).not.toThrow();
+    expect(() => validateUserMetadata({ a: "x".repeat(MAX_USER_METADATA_SIZE) })).toThrow("User metadata is too large");
+    // size is counted in bytes, not characters
+    expect(() => validateUserMetadata({ a: "ж".repeat(MAX_USER_METADATA_SIZE / 2) })).toThrow("User metadata is too large");
+  });
+
+  it.each(["Uploaded-By", "uploaded by", "-name", "name:", "имя", ""])("rejects name %j", (name) => {
+    expect(() => validateUserMetadata({ [name]: "1" })).toThrow("should contain only lowercase letters");
+  });
+
+  it.each(["1\r\nSet-Cookie: a=b", "1\nX-Injected: 1", "a\u0000b", "a\u007fb"])("rejects value %j with control characters", (value) => {
+    expect(() => validateUserMetadata({ "uploaded-by": value })).toThrow("without control characters");
+  });
+
+  it("rejects non-string values", () => {
+    expect(() => validateUserMetadata({ count: 1 } as unknown as Record<string, string>)).toThrow("should be a string");
+  });
+
+  it("limits tags", () => {
+    const tags = Object.fromEntries(Array.from({ length: MAX_TAGS }, (_, i) => [`tag${i}`, "v"]));
+    expect(() => validateTags(tags)).not.toThrow();
+    expect(() => validateTags({ ...tags, extra: "v" })).toThrow(`at most ${MAX_TAGS} tags`);
+    expect(() => validateTags({ "": "v" })).toThrow("Tag key should be");
+    expect(() => validateTags({ ["k".repeat(129)]: "v" })).toThrow("Tag key should be");
+    expect(() => validateTags({ k: "v".repeat(257) })).toThrow(`Tag "k" should be a string`);
+  });
+
+  it("encodes non-ASCII values of headers", () => {
+    expect(userMetadataHeaders({ "uploaded-by": "42", city: "Київ" })).toEqual({
+      "x-meta-uploaded-by": "42",
+      "x-meta-city": `=?UTF-8?B?${Buffer.from("Київ").toString("base64")}?=`,
+    });
+  });
+});
+
+describe("user metadata", () => {
+  let folder: string;
+  let adapter: AdminForthStorageAdapterLocalFilesystem;
+  let server: http.Server;
+  let base: string;
+
+  beforeAll(async () => {
+    folder = await fs.mkdtemp(path.join(os.tmpdir(), "storage-local-test-"));
+    adapter = new AdminForthStorageAdapterLocalFilesystem({
+      fileSystemFolder: path.join(folder, "files"),
+      signingSecret: "test-secret",
+    });
+    await adapter.setupLifecycle("test");
+    server = http.createServer(adapter.getRequestHandler());
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+    await adapter.dispose();
+    await fs.rm(folder, { recursive: true, force: true });
+  });
+
+  async function upload(uploadUrl: string) {
+    const res = await fetch(base + uploadUrl, { method: "PUT", body: "hello", headers: { "Content-Type": "text/plain" } });
+    await res.arrayBuffer();
+    return res.status;
+  }
+
+  async function get(key: string) {
+    const res = await fetch(base + await adapter.getDownloadUrl(key, 60));
+    // body is read, so no response is left in progress when server is closed
+    await res.arrayBuffer();
+    return res;
+  }
+
+  it("stores signed metadata on upload and sends it as x-meta headers", async () => {
+    const { uploadUrl } = await adapter.getUploadSignedUrl("a.txt", "text/plain", 60, {}, {
+      userMetadata: { "uploaded-by": "42", city: "Київ" },
+      tags: { source: "form" },
+    });
+    expect(await upload(uploadUrl)).toBe(200);
+    expect(await adapter.getObjectMetadata("a.txt")).toEqual({ "uploaded-by": "42", city: "Київ" });
+    expect(await adapter.getObjectTags("a.txt")).toEqual({ source: "form" });
+
+    const res = await get("a.txt");
+    expect(res.headers.get("x-meta-uploaded-by")).toBe("42");
+    expect(res.headers.get("x-meta-city")).toBe(`=?UTF-8?B?${Buffer.from("Київ").toString("base64")}?=`);
+  });
+
+  it("rejects upload with tampered metadata", async () => {
+    const { uploadUrl } = await adapter.getUploadSignedUrl("b.txt", "text/plain", 60, {}, {
+      userMetadata: { "uploaded-by": "42" },
+    });
+    const tampered = uploadUrl.replace(encodeURIComponent(JSON.stringify({ "uploaded-by": "42" })),
+      encodeURIComponent(JSON.stringify({ "uploaded-by": "1" })));
+    expect(tampered).not.toBe(uploadUrl);
+    expect(await upload(tampered)).toBe(403);
+    expect(await adapter.headObject("b.txt")).toBeNull();
+  });
+
+  it("refuses to sign upload URL with invalid metadata", async () => {
+    await expect(adapter.getUploadSignedUrl("c.txt", "text/plain", 60, {}, {
+      userMetadata: { "uploaded-by": "42\r\nSet-Cookie: a=b" },
+    })).rejects.toThrow("without control characters");
+    await expect(adapter.putObject("c.txt", Buffer.from("hello"), "text/plain", {
+      userMetadata: { a: "x".repeat(MAX_USER_METADATA_SIZE) },
+    })).rejects.toThrow("User metadata is too large");
+    expect(await adapter.headObject("c.txt")).toBeNull();
+  });
+
+  it("replaces metadata and tags of existing object", async () => {
+    await adapter.putObject("d.txt", Buffer.from("hello"), "text/plain", { userMetadata: { old: "1" } });
+    await adapter.setObjectMetadata("d.txt", { "record-id": "17" });
+    await adapter.setObjectTags("d.txt", { source: "import" });
+    expect(await adapter.getObjectMetadata("d.txt")).toEqual({ "record-id": "17" });
+    expect(await adapter.getObjectTags("d.txt")).toEqual({ source: "import" });
+    expect(await adapter.headObject("d.txt")).toMatchObject({ contentType: "text/plain", size: 5 });
+
+    const res = await get("d.txt");
+    expect(res.headers.get("x-meta-record-id")).toBe("17");
+    expect(res.headers.get("x-meta-old")).toBeNull();
+  });
+
+  it("keeps metadata unchanged when new one is invalid", async () => {
+    await adapter.putObject("e.txt", Buffer.from("hello"), "text/plain", { userMetadata: { a: "1" } });
+    await expect(adapter.setObjectMetadata("e.txt", { a: "1\nX-Injected: 1" })).rejects.toThrow("without control characters");
+    await expect(adapter.setObjectMetadata("e.txt", { "X-Injected": "1" })).rejects.toThrow("should contain only lowercase letters");
+    await expect(adapter.setObjectTags("e.txt", { k: "v".repeat(257) })).rejects.toThrow("should be a string");
+    expect(await adapter.getObjectMetadata("e.txt")).toEqual({ a: "1" });
+    await expect(adapter.setObjectMetadata("missing.txt", {})).rejects.toThrow("Object missing.txt not found");
+  });
+});
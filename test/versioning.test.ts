@@ -0,0 +1,78 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import AdminForthStorageAdapterLocalFilesystem from "../index.js";
+
+async function readText(adapter: AdminForthStorageAdapterLocalFilesystem, key: string, versionId?: string): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of await adapter.getObjectStream(key, versionId)) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString();
+}
+
+describe("versioning", () => {
+  let folder: string;
+  let adapter: AdminForthStorageAdapterLocalFilesystem;
+
+  beforeEach(async () => {
+    folder = await fs.mkdtemp(path.join(os.tmpdir(), "storage-local-test-"));
+    adapter = new AdminForthStorageAdapterLocalFilesystem({
+      fileSystemFolder: path.join(folder, "files"),
+      signingSecret: "test-secret",
+      versioning: {},
+    });
+    await adapter.setupLifecycle("test");
+  });
+
+  afterEach(async () => {
+    await adapter.dispose();
+    await fs.rm(folder, { recursive: true, force: true });
+  });
+
+  it("keeps deleted objects in the trash and restores them", async () => {
+    await adapter.putObject("a.txt", Buffer.from("first"), "text/plain", { userMetadata: { author: "1" } });
+    await adapter.deleteObject("a.txt");
+    expect(await adapter.headObject("a.txt")).toBeNull();
+
+    const [version] = await adapter.listVersions("a.txt");
+    expect(version).toMatchObject({ key: "a.txt", reason: "deleted" });
+    expect(await readText(adapter, "a.txt", version.versionId)).toBe("first");
+
+    const restored = await adapter.restore("a.txt");
+    expect(restored.userMetadata).toEqual({ author: "1" });
+    expect(await readText(adapter, "a.txt")).toBe("first");
+    expect(await adapter.listVersions("a.txt")).toEqual([]);
+  });
+
+  it("keeps overwritten objects, the newest version first", async () => {
+    await adapter.putObject("a.txt", Buffer.from("first"), "text/plain");
+    await adapter.putObject("b.txt", Buffer.from("second"), "text/plain");
+    await adapter.putObject("c.txt", Buffer.from("third"), "text/plain");
+    await adapter.copyObject("b.txt", "a.txt", { overwrite: true });
+    await adapter.moveObject("c.txt", "a.txt", { overwrite: true });
+    expect(await readText(adapter, "a.txt")).toBe("third");
+
+    const versions = await adapter.listVersions("a.txt");
+    expect(versions.map((version) => version.reason)).toEqual(["overwritten", "overwritten"]);
+    expect(await readText(adapter, "a.txt", versions[0].versionId)).toBe("second");
+    expect(await readText(adapter, "a.txt", versions[1].versionId)).toBe("first");
+
+    // current content goes to the trash when older version is restored
+    await adapter.restore("a.txt", versions[1].versionId);
+    expect(await readText(adapter, "a.txt")).toBe("first");
+    const afterRestore = await adapter.listVersions("a.txt");
+    expect(afterRestore).toHaveLength(2);
+    expect(await readText(adapter, "a.txt", afterRestore[0].versionId)).toBe("third");
+  });
+
+  it("purges the trash", async () => {
+    await adapter.putObject("a.txt", Buffer.from("first"), "text/plain");
+    await adapter.deleteObject("a.txt");
+    expect(await adapter.purgeTrash(new Date(Date.now() - 60 * 1000))).toBe(0);
+    expect(await adapter.purgeTrash()).toBe(1);
+    expect(await adapter.listVersions("a.txt")).toEqual([]);
+    await expect(adapter.restore("a.txt")).rejects.toThrow();
+  });
+});
@@ -1,3 +1,201 @@
+import { Readable } from "stream";
+import { ImageVariantOptions } from "./imageVariants.js";
+import { ResponseOverrides } from "./responseOverrides.js";
+
 export interface AdapterOptions {
     localPath: string;
-  }
\ No newline at end of file
+  }
+
+export interface ObjectMetadata {
+  contentType: string;
+  createdAt: number; // unix timestamp in milliseconds
+  size: number; // size in bytes
+  sha256?: string; // SHA-256 of file content, hex encoded, used as ETag
+  md5?: string; // MD5 of file content, hex encoded, stored only if storeMd5 option is enabled or expected MD5 was given on upload
+  originalFilename?: string; // name of the file on user's device, default filename for Content-Disposition
+  userMetadata?: Record<string, string>; // custom key/value metadata e.g. { "uploaded-by": "42" }, returned as x-meta-* headers
+  tags?: Record<string, string>; // key/value tags for classification, not returned in download headers
+  encryption?: {
+    keyId: string; // id of the key in encryption.keys which was used to encrypt the file
+    chunkSize: number; // plaintext bytes per encrypted chunk
+  };
+  // set while the file is re-encrypted, if re-encryption was interrupted the file uses either encryption or this one
+  reencryption?: {
+    keyId: string;
+    chunkSize: number;
+  };
+}
+
+export interface KeyRange {
+  gte?: string; // include keys greater than or equal
+  lt?: string; // include keys less than
+}
+
+/**
+ * Storage for object metadata and deletion candidates (keys marked for deletion with their creation time).
+ * Iteration should return keys in ascending byte order.
+ * Deleting missing key should not throw.
+ */
+export interface MetadataStore {
+  open(): Promise<void>;
+  close(): Promise<void>;
+
+  getMetadata(key: string): Promise<ObjectMetadata | undefined>;
+  putMetadata(key: string, metadata: ObjectMetadata): Promise<void>;
+  delMetadata(key: string): Promise<void>;
+  iterateMetadata(range?: KeyRange): AsyncIterable<[string, ObjectMetadata]>;
+
+  getCandidate(key: string): Promise<number | undefined>;
+  putCandidate(key: string, createdAt: number): Promise<void>;
+  delCandidate(key: string): Promise<void>;
+  iterateCandidates(range?: KeyRange): AsyncIterable<[string, number]>;
+
+  // keys which can't be used for objects because store keeps its own files under them
+  isReservedKey?(key: string): boolean;
+
+  // Usage counters (total bytes of objects under key prefix) used for quotas. Counter is created by initUsageCounter
+  // from the actual usage, addToUsageCounter should do nothing if counter does not exist.
+  // Stores without counters make adapter calculate usage by iterating metadata on every check.
+  getUsageCounter?(prefix: string): Promise<number | undefined>;
+  initUsageCounter?(prefix: string, bytes: number): Promise<void>; // does nothing if counter already exists
+  addToUsageCounter?(prefix: string, delta: number): Promise<void>;
+  resetUsageCounters?(): Promise<void>;
+
+  // Nonces of single-use presigned URLs, kept until URL expires. Required only if single-use URLs are issued.
+  consumeNonce?(nonce: string, expiresAt: number): Promise<boolean>; // should return false if nonce was already used
+  purgeExpiredNonces?(now: number): Promise<void>;
+
+  // Revocations of presigned URLs: URLs for the key issued before revokedAt are rejected, empty key means all keys.
+  getUrlRevocation?(key: string): Promise<number | undefined>;
+  putUrlRevocation?(key: string, revokedAt: number): Promise<void>;
+}
+
+export interface PresignOptions {
+  singleUse?: boolean; // URL works only once, requires metadata store with nonces support (all built-in stores)
+}
+
+// metadata which can be set by uploader
+export type UploadMetadata = Pick<ObjectMetadata, "originalFilename" | "userMetadata" | "tags">;
+
+export interface UploadUrlOptions extends PresignOptions, UploadMetadata {}
+
+export interface DownloadUrlOptions extends PresignOptions, ResponseOverrides, ImageVariantOptions {}
+
+export interface CopyObjectOptions {
+  overwrite?: boolean; // replace destination object if it exists, by default copy and move fail
+}
+
+/**
+ * Previous content of the key which was replaced or deleted while versioning is enabled.
+ */
+export interface ObjectVersion {
+  versionId: string;
+  key: string;
+  metadata: ObjectMetadata; // metadata of the object at the moment it was moved to the trash
+  archivedAt: number; // unix timestamp in milliseconds
+  reason: "overwritten" | "deleted" | "expired"; // expired means removed by the deletion sweeper
+}
+
+export interface ListObjectsOptions {
+  prefix?: string; // return only keys starting with prefix e.g. "uploads/"
+  delimiter?: string; // group keys which contain delimiter after prefix into common prefixes, e.g. "/" for folder-style browsing
+  cursor?: string; // nextCursor from previous page
+  limit?: number; // maximum number of objects and common prefixes in one page, default 1000
+}
+
+export interface ListedObject extends ObjectMetadata {
+  key: string;
+}
+
+export interface ListObjectsResult {
+  objects: ListedObject[];
+  commonPrefixes: string[]; // e.g. "uploads/2024/" for keys "uploads/2024/*" when listing prefix "uploads/" with delimiter "/"
+  nextCursor?: string; // undefined on the last page
+}
+
+export interface StorageUsage {
+  objects: number;
+  bytes: number;
+  pendingDeletionObjects: number; // objects marked for deletion which were not removed by the sweeper yet
+  pendingDeletionBytes: number;
+}
+
+/**
+ * Events emitted by adapter, listeners get object key and metadata.
+ */
+export interface StorageEvents {
+  uploaded: { key: string; metadata: ObjectMetadata }; // file is stored by PUT, createWriteStream or putObject, and marked for deletion
+  committed: { key: string; metadata: ObjectMetadata }; // file is marked for not deletion, e.g. record which references it is saved
+  deleted: { key: string; metadata: ObjectMetadata }; // file is deleted by deleteObject or overwritten by copyObject or moveObject
+  copied: { key: string; sourceKey: string; metadata: ObjectMetadata }; // file is copied by copyObject, new copy is marked for deletion
+  moved: { key: string; sourceKey: string; metadata: ObjectMetadata }; // file is moved by moveObject
+  restored: { key: string; versionId: string; metadata: ObjectMetadata }; // version is restored from the trash by restore
+  expired: { key: string; metadata?: ObjectMetadata }; // file marked for deletion is removed by the sweeper
+  rejected: { key: string; reason: string; quarantinePath?: string }; // upload is rejected by beforeUpload hook
+}
+
+export interface BeforeUploadContext {
+  key: string;
+  contentType: string;
+  size: number;
+  sha256: string;
+  metadata: UploadMetadata;
+  filePath: string; // staged file which is not accessible by the key yet, encrypted if encryption is enabled
+  createReadStream(): Readable; // plaintext content of the staged file
+}
+
+// undefined or "accept" makes file downloadable, "quarantine" moves it to the quarantine folder instead
+export type BeforeUploadResult = void | { action: "accept" } | { action: "reject" | "quarantine"; reason?: string };
+
+export interface FsckOptions {
+  repair?: boolean; // fix found issues, by default only report them
+  orphans?: "rebuild" | "quarantine" | "delete"; // what to do with files without metadata in repair mode, default "rebuild"
+  exclude?: string[]; // key prefixes which should not be checked, e.g. internal folders of other adapter instances
+}
+
+export interface FsckIssue {
+  type: "orphanFile" | "missingFile" | "sizeMismatch" | "stuckCandidate";
+  key: string;
+  details?: string;
+  repair?: string; // action taken in repair mode
+  repairError?: string;
+}
+
+export interface FsckReport {
+  checkedFiles: number;
+  checkedMetadata: number;
+  checkedCandidates: number;
+  issues: FsckIssue[];
+  repaired: number;
+  failed: number;
+}
+
+export interface ExportSnapshotOptions {
+  prefix?: string; // export only keys starting with prefix e.g. "uploads/"
+}
+
+export interface ImportSnapshotOptions {
+  prefix?: string; // import only keys starting with prefix
+  overwrite?: boolean; // replace existing objects with different content, by default they are reported as failed
+}
+
+export interface SnapshotReport {
+  objects: number; // objects in the snapshot
+  copied: number; // objects which content was written
+  unchanged: number; // objects skipped because the same content is already there, their metadata is still updated
+  removed: number; // export only: files of objects which were deleted after the previous export to the same folder
+  failed: { key: string; error: string }[];
+}
+
+export interface VerifyResult {
+  key: string;
+  status: "ok" | "mismatch" | "missing" | "noChecksum";
+  expectedSha256?: string;
+  actualSha256?: string;
+}
+
+export interface VerifyReport {
+  checked: number;
+  ok: number;
+  failed: VerifyResult[]; // all results with status other than "ok"
+}
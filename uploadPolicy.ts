@@ -0,0 +1,153 @@
+import { Transform } from "stream";
+
+/**
+ * Restrictions for upload by presigned URL. Policy is passed in query parameters and covered by the URL signature,
+ * so client can't change it.
+ */
+export interface UploadPolicy {
+  maxSize?: number; // maximum body size in bytes
+  minSize?: number; // minimum body size in bytes
+  allowedContentTypes?: string[]; // MIME patterns e.g. ["image/*", "application/pdf"]
+  contentLength?: number; // exact body size in bytes
+  sha256?: string; // expected SHA-256 of the body, hex encoded
+  md5?: string; // expected MD5 of the body, hex encoded
+}
+
+export class UploadPolicyError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+// order matters: params are signed as JSON, so they should always be serialized in the same order
+const POLICY_PARAMS = ["maxSize", "minSize", "allowedContentTypes", "contentLength", "sha256", "md5"] as const;
+
+/**
+ * Serializes policy to query parameters which are included into signed payload.
+ */
+export function uploadPolicyToParams(policy: UploadPolicy = {}): Record<string, string> {
+  const params: Record<string, string> = {};
+  for (const name of POLICY_PARAMS) {
+    const value = policy[name];
+    if (value === undefined || (Array.isArray(value) && value.length === 0)) {
+      continue;
+    }
+    params[name] = Array.isArray(value) ? value.join(",") : value.toString();
+  }
+  return params;
+}
+
+/**
+ * Picks policy parameters from request query in the same order as they were signed.
+ */
+export function uploadParamsFromQuery(query: Record<string, any>): Record<string, string> {
+  const params: Record<string, string> = {};
+  for (const name of POLICY_PARAMS) {
+    if (typeof query[name] === "string") {
+      params[name] = query[name];
+    }
+  }
+  return params;
+}
+
+export function uploadPolicyFromParams(params: Record<string, string>): UploadPolicy {
+  const toNumber = (value: string | undefined) => value === undefined ? undefined : parseInt(value, 10);
+  return {
+    maxSize: toNumber(params.maxSize),
+    minSize: toNumber(params.minSize),
+    allowedContentTypes: params.allowedContentTypes ? params.allowedContentTypes.split(",") : undefined,
+    contentLength: toNumber(params.contentLength),
+    sha256: params.sha256,
+    md5: params.md5,
+  };
+}
+
+export function validateUploadPolicy(policy: UploadPolicy): void {
+  for (const name of ["maxSize", "minSize", "contentLength"] as const) {
+    const value = policy[name];
+    if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+      throw new Error(`Upload policy ${name} should be a non-negative integer`);
+    }
+  }
+  if (policy.minSize !== undefined && policy.maxSize !== undefined && policy.minSize > policy.maxSize) {
+    throw new Error("Upload policy minSize is greater than maxSize");
+  }
+  if (policy.contentLength !== undefined && (
+    (policy.maxSize !== undefined && policy.contentLength > policy.maxSize)
+    || (policy.minSize !== undefined && policy.contentLength < policy.minSize)
+  )) {
+    throw new Error("Upload policy contentLength is out of minSize..maxSize range");
+  }
+  if (policy.sha256 !== undefined && !/^[0-9a-f]{64}$/.test(policy.sha256)) {
+    throw new Error("Upload policy sha256 should be lowercase hex encoded SHA-256");
+  }
+  if (policy.md5 !== undefined && !/^[0-9a-f]{32}$/.test(policy.md5)) {
+    throw new Error("Upload policy md5 should be lowercase hex encoded MD5");
+  }
+  if (policy.allowedContentTypes?.some((pattern) => pattern.includes(","))) {
+    throw new Error("Upload policy allowedContentTypes should not contain commas");
+  }
+}
+
+/**
+ * Checks if content type matches one of MIME patterns, e.g. "image/png; charset=binary" matches "image/*".
+ */
+export function contentTypeMatches(contentType: string, patterns: string[]): boolean {
+  const [type, subtype] = contentType.split(";")[0].trim().toLowerCase().split("/");
+  if (!type || !subtype) {
+    return false;
+  }
+  return patterns.some((pattern) => {
+    const [patternType, patternSubtype] = pattern.trim().toLowerCase().split("/");
+    return (patternType === "*" || patternType === type) && (patternSubtype === "*" || patternSubtype === subtype);
+  });
+}
+
+/**
+ * Rejects request early by Content-Length header before reading the body.
+ */
+export function assertDeclaredLength(policy: UploadPolicy, contentLengthHeader: string | undefined): void {
+  if (contentLengthHeader === undefined) {
+    return;
+  }
+  const declaredLength = parseInt(contentLengthHeader, 10);
+  if (policy.contentLength !== undefined && declaredLength !== policy.contentLength) {
+    throw new UploadPolicyError(400, `Content length should be ${policy.contentLength} bytes`);
+  }
+  if (policy.maxSize !== undefined && declaredLength > policy.maxSize) {
+    throw new UploadPolicyError(413, `File is too large, maximum size is ${policy.maxSize} bytes`);
+  }
+  if (policy.minSize !== undefined && declaredLength < policy.minSize) {
+    throw new UploadPolicyError(400, `File is too small, minimum size is ${policy.minSize} bytes`);
+  }
+}
+
+/**
+ * Creates pass-through stream which counts bytes and fails with UploadPolicyError as soon as body
+ * exceeds the limit, or at the end if body is smaller than required.
+ */
+export function createUploadPolicyLimiter(policy: UploadPolicy): Transform {
+  const maxSize = Math.min(policy.maxSize ?? Infinity, policy.contentLength ?? Infinity);
+  let size = 0;
+  return new Transform({
+    transform(chunk, _encoding, callback) {
+      size += chunk.length;
+      if (size > maxSize) {
+        return callback(new UploadPolicyError(413, `File is too large, maximum size is ${maxSize} bytes`));
+      }
+      callback(null, chunk);
+    },
+    flush(callback) {
+      if (policy.contentLength !== undefined && size !== policy.contentLength) {
+        return callback(new UploadPolicyError(400, `Content length should be ${policy.contentLength} bytes`));
+      }
+      if (policy.minSize !== undefined && size < policy.minSize) {
+        return callback(new UploadPolicyError(400, `File is too small, minimum size is ${policy.minSize} bytes`));
+      }
+      callback();
+    },
+  });
+}
@@ -0,0 +1,103 @@
+import { validateFilename } from "./responseOverrides.js";
+import { UploadMetadata } from "./types.js";
+
+// limits are the same as in S3, so metadata can be moved there without changes
+export const MAX_USER_METADATA_SIZE = 2048; // total bytes of names and values
+export const MAX_TAGS = 10;
+const MAX_TAG_KEY_LENGTH = 128;
+const MAX_TAG_VALUE_LENGTH = 256;
+
+export function validateUserMetadata(userMetadata: Record<string, string>): void {
+  let size = 0;
+  for (const [name, value] of Object.entries(userMetadata)) {
+    // names are sent as x-meta-* headers, which are case-insensitive
+    if (!/^[a-z0-9][a-z0-9_-]*$/.test(name)) {
+      throw new Error(`User metadata name "${name}" should contain only lowercase letters, digits, "-" and "_"`);
+    }
+    if (typeof value !== "string" || /[\x00-\x1f\x7f]/.test(value)) {
+      throw new Error(`User metadata "${name}" should be a string without control characters`);
+    }
+    size += Buffer.byteLength(name) + Buffer.byteLength(value);
+  }
+  if (size > MAX_USER_METADATA_SIZE) {
+    throw new Error(`User metadata is too large, maximum size is ${MAX_USER_METADATA_SIZE} bytes`);
+  }
+}
+
+export function validateTags(tags: Record<string, string>): void {
+  const entries = Object.entries(tags);
+  if (entries.length > MAX_TAGS) {
+    throw new Error(`Object can have at most ${MAX_TAGS} tags`);
+  }
+  for (const [key, value] of entries) {
+    if (!key || key.length > MAX_TAG_KEY_LENGTH) {
+      throw new Error(`Tag key should be 1-${MAX_TAG_KEY_LENGTH} characters long`);
+    }
+    if (typeof value !== "string" || value.length > MAX_TAG_VALUE_LENGTH) {
+      throw new Error(`Tag "${key}" should be a string up to ${MAX_TAG_VALUE_LENGTH} characters long`);
+    }
+  }
+}
+
+export function validateUploadMetadata(metadata: UploadMetadata): void {
+  if (metadata.originalFilename !== undefined) {
+    validateFilename(metadata.originalFilename);
+  }
+  if (metadata.userMetadata !== undefined) {
+    validateUserMetadata(metadata.userMetadata);
+  }
+  if (metadata.tags !== undefined) {
+    validateTags(metadata.tags);
+  }
+}
+
+// order matters: params are signed as JSON, so they should always be serialized in the same order
+const UPLOAD_METADATA_PARAMS = ["originalFilename", "userMetadata", "tags"] as const;
+
+/**
+ * Serializes metadata which is set on upload to query parameters covered by the signature.
+ */
+export function uploadMetadataToParams(metadata: UploadMetadata = {}): Record<string, string> {
+  const params: Record<string, string> = {};
+  for (const name of UPLOAD_METADATA_PARAMS) {
+    const value = metadata[name];
+    if (value !== undefined) {
+      params[name] = typeof value === "string" ? value : JSON.stringify(value);
+    }
+  }
+  return params;
+}
+
+export function uploadMetadataParamsFromQuery(query: Record<string, any>): Record<string, string> {
+  const params: Record<string, string> = {};
+  for (const name of UPLOAD_METADATA_PARAMS) {
+    if (typeof query[name] === "string") {
+      params[name] = query[name];
+    }
+  }
+  return params;
+}
+
+/**
+ * Parses signed params, so throws only if params were produced by other version of the adapter.
+ */
+export function uploadMetadataFromParams(params: Record<string, string>): UploadMetadata {
+  return {
+    originalFilename: params.originalFilename,
+    userMetadata: params.userMetadata === undefined ? undefined : JSON.parse(params.userMetadata),
+    tags: params.tags === undefined ? undefined : JSON.parse(params.tags),
+  };
+}
+
+/**
+ * Returns x-meta-* response headers, values with non-ASCII characters are encoded as RFC 2047 words (like S3 does).
+ */
+export function userMetadataHeaders(userMetadata: Record<string, string> = {}): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(userMetadata)) {
+    headers[`x-meta-${name}`] = /^[\x20-\x7e]*$/.test(value)
+      ? value
+      : `=?UTF-8?B?${Buffer.from(value).toString("base64")}?=`;
+  }
+  return headers;
+}
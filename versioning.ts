@@ -0,0 +1,24 @@
+import crypto from "crypto";
+
+/**
+ * Versioning keeps replaced and deleted objects in the trash instead of removing them, so they can be restored.
+ * Versions are not counted in quotas. Encrypted versions need their encryption keys, rotation re-encrypts only current objects.
+ */
+export interface VersioningOptions {
+  trashRetentionPeriod?: number; // seconds since version was moved to the trash after which it is purged, default 2592000 (30 days)
+  trashSweepInterval?: number; // seconds between runs of the trash sweeper, default 3600 (1 hour)
+}
+
+export const DEFAULT_TRASH_RETENTION_PERIOD = 30 * 24 * 60 * 60;
+export const DEFAULT_TRASH_SWEEP_INTERVAL = 60 * 60;
+
+/**
+ * Version ids start with archive time, so they are sorted from the oldest to the newest.
+ */
+export function createVersionId(archivedAt: number): string {
+  return `${archivedAt.toString().padStart(15, "0")}-${crypto.randomBytes(4).toString("hex")}`;
+}
+
+export function isValidVersionId(versionId: unknown): versionId is string {
+  return typeof versionId === "string" && /^\d{15}-[0-9a-f]{8}$/.test(versionId);
+}